@@ -0,0 +1,7 @@
+/** @type {import('ts-jest').JestConfigWithTsJest} */
+module.exports = {
+	preset: 'ts-jest',
+	testEnvironment: 'node',
+	// Modules are imported from the baseUrl of tsconfig.json like 'types' or 'utils'
+	moduleDirectories: ['node_modules', 'src'],
+};
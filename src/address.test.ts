@@ -0,0 +1,121 @@
+import { decodeEncodedWords, parseAddressList, parseSingleAddress } from 'address';
+
+describe('parseAddressList', () => {
+	it('parses bare addresses', () => {
+		expect(parseAddressList('alice@example.com')).toEqual([{ name: '', email: 'alice@example.com' }]);
+		expect(parseAddressList('alice@example.com, bob@example.org')).toEqual([
+			{ name: '', email: 'alice@example.com' },
+			{ name: '', email: 'bob@example.org' },
+		]);
+		expect(parseAddressList('<noreply@github.com>')).toEqual([{ name: '', email: 'noreply@github.com' }]);
+	});
+
+	it('parses unquoted display names', () => {
+		expect(parseAddressList('Alice Smith <alice@example.com>, Bob <bob@example.org>')).toEqual([
+			{ name: 'Alice Smith', email: 'alice@example.com' },
+			{ name: 'Bob', email: 'bob@example.org' },
+		]);
+	});
+
+	it('keeps commas and escaped quotes within quoted names', () => {
+		expect(
+			parseAddressList('"Smith, Alice" <alice@example.com>, "O\'Brien, \\"Bob\\"" <bob@example.org>')
+		).toEqual([
+			{ name: 'Smith, Alice', email: 'alice@example.com' },
+			{ name: 'O\'Brien, "Bob"', email: 'bob@example.org' },
+		]);
+	});
+
+	it('lists the members of groups and skips empty groups', () => {
+		expect(parseAddressList('undisclosed-recipients:;')).toEqual([]);
+		expect(
+			parseAddressList('Project Team: "Doe, Jane" <jane@example.com>, john@example.com;, carol@example.net')
+		).toEqual([
+			{ name: 'Doe, Jane', email: 'jane@example.com' },
+			{ name: '', email: 'john@example.com' },
+			{ name: '', email: 'carol@example.net' },
+		]);
+	});
+
+	it('uses comments as names of bare addresses', () => {
+		expect(parseAddressList('alice@example.com (Alice Smith)')).toEqual([
+			{ name: 'Alice Smith', email: 'alice@example.com' },
+		]);
+		expect(parseAddressList('Pete(A nice \\) chap) <pete(his account)@silly.test(his host)>')).toEqual([
+			{ name: 'Pete', email: 'pete@silly.test' },
+		]);
+	});
+
+	it('parses semicolon separated lists written by Outlook', () => {
+		expect(
+			parseAddressList("'Alice Smith' <alice@example.com>; Bob Jones <bob@example.org>; carol@example.net")
+		).toEqual([
+			{ name: "'Alice Smith'", email: 'alice@example.com' },
+			{ name: 'Bob Jones', email: 'bob@example.org' },
+			{ name: '', email: 'carol@example.net' },
+		]);
+		expect(parseAddressList('"Smith; Alice" <alice@example.com>;')).toEqual([
+			{ name: 'Smith; Alice', email: 'alice@example.com' },
+		]);
+	});
+
+	it('unfolds multiline headers and removes obsolete source routes', () => {
+		expect(parseAddressList('"Alice Smith"\r\n <alice@example.com>,\r\n\tbob@example.org')).toEqual([
+			{ name: 'Alice Smith', email: 'alice@example.com' },
+			{ name: '', email: 'bob@example.org' },
+		]);
+		expect(parseAddressList('Alice <@relay.example.com:alice@example.com>')).toEqual([
+			{ name: 'Alice', email: 'alice@example.com' },
+		]);
+	});
+
+	it('decodes encoded word names', () => {
+		expect(
+			parseAddressList(
+				'=?UTF-8?Q?J=C3=BCrgen_M=C3=BCller?= <juergen@example.de>, =?ISO-8859-1?Q?Andr=E9?= <andre@example.fr>'
+			)
+		).toEqual([
+			{ name: 'Jürgen Müller', email: 'juergen@example.de' },
+			{ name: 'André', email: 'andre@example.fr' },
+		]);
+		expect(parseAddressList('"=?utf-8?B?5bGx55Sw5aSq6YOO?=" <yamada@example.jp>')).toEqual([
+			{ name: '山田太郎', email: 'yamada@example.jp' },
+		]);
+	});
+
+	it('returns an empty list for empty headers', () => {
+		expect(parseAddressList('')).toEqual([]);
+		expect(parseSingleAddress('')).toEqual({ name: '', email: '' });
+	});
+});
+
+describe('decodeEncodedWords', () => {
+	it('keeps texts without encoded words', () => {
+		expect(decodeEncodedWords('Quarterly report =? draft')).toBe('Quarterly report =? draft');
+	});
+
+	it('decodes Q and B encoded words', () => {
+		expect(decodeEncodedWords('=?UTF-8?Q?Caf=C3=A9_meeting?=')).toBe('Café meeting');
+		expect(decodeEncodedWords('=?UTF-8?B?0J/RgNC40LLQtdGC?=')).toBe('Привет');
+		expect(decodeEncodedWords('=?ISO-8859-2?Q?=A3=F3d=BC?=')).toBe('Łódź');
+		expect(decodeEncodedWords('=?UTF-8*en?Q?Hello?=')).toBe('Hello');
+	});
+
+	it('removes the whitespace between adjacent encoded words', () => {
+		expect(decodeEncodedWords('=?ISO-8859-1?Q?a?= =?ISO-8859-1?Q?b?=')).toBe('ab');
+		expect(decodeEncodedWords('=?UTF-8?B?VGhpcyBpcyBh?=\r\n =?UTF-8?B?IGxvbmcgc3ViamVjdA==?=')).toBe(
+			'This is a long subject'
+		);
+		expect(decodeEncodedWords('Re: =?UTF-8?Q?R=C3=A9union?= demain')).toBe('Re: Réunion demain');
+	});
+
+	it('decodes characters split across adjacent encoded words', () => {
+		// "日本語" split in the middle of the second character by the sending client
+		expect(decodeEncodedWords('=?UTF-8?B?5pel5pw=?= =?UTF-8?B?rOiqng==?=')).toBe('日本語');
+		expect(decodeEncodedWords('=?UTF-8?Q?Gr=C3?= =?UTF-8?Q?=BC=C3=9Fe?=')).toBe('Grüße');
+	});
+
+	it('keeps encoded words with unknown charsets', () => {
+		expect(decodeEncodedWords('=?x-unknown?Q?abc?=')).toBe('=?x-unknown?Q?abc?=');
+	});
+});
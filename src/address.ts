@@ -0,0 +1,169 @@
+import { MSGAddress } from 'types';
+
+/* ------------ RFC 5322 ADDRESS LISTS ------------ */
+
+/**
+ * Parses an address list header (From, To, CC, Reply-To etc.) into addresses. Supports quoted and unquoted
+ * display names, bare addresses, comments like "alice@example.com (Alice)", groups like
+ * "Team: alice@example.com, bob@example.com;" and RFC 2047 encoded-word names. Semicolon separated lists
+ * written by Outlook are also accepted. Entries without an email (e.g. "undisclosed-recipients:;") are skipped
+ * @param text
+ * @returns
+ */
+export const parseAddressList = (text: string): MSGAddress[] => {
+	let addresses: MSGAddress[] = [];
+	if (!text) return addresses;
+	let input = text.replace(/\r?\n[ \t]*/g, ' ');
+
+	let phrase = '';
+	let angleAddress: string | null = null;
+	let comment = '';
+
+	const flush = () => {
+		let name = phrase;
+		let email = '';
+		if (angleAddress !== null) {
+			// Comments like <pete(his account)@example.com> and obsolete source routes like
+			// <@relay.example.com:alice@example.com> are removed
+			let addrSpec = angleAddress.replace(/\((?:\\.|[^()\\])*\)/g, '');
+			email = addrSpec.substring(addrSpec.lastIndexOf(':') + 1).trim();
+		} else if (phrase.includes('@')) {
+			email = phrase.trim();
+			name = comment;
+		}
+		name = decodeEncodedWords(name.replace(/\s+/g, ' ').trim());
+		email = email.replace(/\s+/g, '');
+		if (email) addresses.push({ name: name, email: email });
+		phrase = '';
+		angleAddress = null;
+		comment = '';
+	};
+
+	let i = 0;
+	while (i < input.length) {
+		let char = input[i];
+		if (char === '"') {
+			let end = i + 1;
+			let quoted = '';
+			while (end < input.length && input[end] !== '"') {
+				if (input[end] === '\\' && end + 1 < input.length) end++;
+				quoted += input[end];
+				end++;
+			}
+			phrase += quoted;
+			i = end + 1;
+		} else if (char === '(') {
+			let depth = 1;
+			let end = i + 1;
+			let content = '';
+			while (end < input.length && depth > 0) {
+				if (input[end] === '\\' && end + 1 < input.length) end++;
+				else if (input[end] === '(') depth++;
+				else if (input[end] === ')') depth--;
+				if (depth > 0) content += input[end];
+				end++;
+			}
+			comment = content.trim();
+			i = end;
+		} else if (char === '<') {
+			let end = input.indexOf('>', i + 1);
+			if (end === -1) end = input.length;
+			angleAddress = input.substring(i + 1, end);
+			i = end + 1;
+		} else if (char === ':' && angleAddress === null && !phrase.includes('@')) {
+			// Group display name is dropped, its members are listed as single addresses
+			phrase = '';
+			comment = '';
+			i++;
+		} else if (char === ',' || char === ';') {
+			flush();
+			i++;
+		} else {
+			phrase += char;
+			i++;
+		}
+	}
+	flush();
+
+	return addresses;
+};
+
+/**
+ * Returns the first address of the header or an empty address if it is not available
+ * @param text
+ * @returns
+ */
+export const parseSingleAddress = (text: string): MSGAddress => {
+	let addresses = parseAddressList(text);
+	return addresses.length > 0 ? addresses[0] : { name: '', email: '' };
+};
+
+/* ------------ RFC 2047 ENCODED WORDS ------------ */
+
+const ENCODED_WORD_REGEX = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+const ENCODED_WORD_RUN_REGEX = /(?:=\?[^?\s]+\?[BbQq]\?[^?\s]*\?=)+/g;
+
+/**
+ * Decodes the RFC 2047 encoded words like "=?UTF-8?B?w4Frb3M=?=" within the header text. The whitespace
+ * between adjacent encoded words is removed as required by the RFC. Adjacent words with the same charset
+ * are decoded together, since some clients split multibyte characters across them
+ * @param text
+ * @returns
+ */
+export const decodeEncodedWords = (text: string): string => {
+	if (!text || !text.includes('=?')) return text;
+	let joinedText = text.replace(/(\?=)\s+(?==\?)/g, '$1');
+	return joinedText.replace(ENCODED_WORD_RUN_REGEX, (run) => {
+		let words = Array.from(run.matchAll(ENCODED_WORD_REGEX));
+		let decoded = '';
+		let index = 0;
+		while (index < words.length) {
+			// Language suffix like "UTF-8*en" (RFC 2231) is not part of the charset
+			let charset = words[index][1].split('*')[0].trim().toLowerCase();
+			let sameCharsetWords = [];
+			while (index < words.length && words[index][1].split('*')[0].trim().toLowerCase() === charset) {
+				sameCharsetWords.push(words[index]);
+				index++;
+			}
+			try {
+				let chunks = sameCharsetWords.map(([, , encoding, encodedText]) =>
+					encoding.toUpperCase() === 'B' ? base64ToBytes(encodedText) : qEncodingToBytes(encodedText)
+				);
+				let bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+				let offset = 0;
+				for (let chunk of chunks) {
+					bytes.set(chunk, offset);
+					offset += chunk.length;
+				}
+				decoded += new TextDecoder(charset).decode(bytes);
+			} catch (err) {
+				decoded += sameCharsetWords.map(([word]) => word).join('');
+			}
+		}
+		return decoded;
+	});
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+	let binary = atob(base64.replace(/[^A-Za-z0-9+/=]/g, ''));
+	let bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+	return bytes;
+};
+
+const qEncodingToBytes = (text: string): Uint8Array => {
+	let bytes: number[] = [];
+	for (let i = 0; i < text.length; i++) {
+		let char = text[i];
+		if (char === '_') {
+			bytes.push(0x20);
+		} else if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substring(i + 1, i + 3))) {
+			bytes.push(parseInt(text.substring(i + 1, i + 3), 16));
+			i += 2;
+		} else {
+			bytes.push(char.charCodeAt(0) & 0xff);
+		}
+	}
+	return new Uint8Array(bytes);
+};
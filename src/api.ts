@@ -0,0 +1,123 @@
+import MsgHandlerPlugin from 'main';
+import { EventRef, Events, TFile } from 'obsidian';
+import dayjs from 'dayjs';
+import { MSGApiMessage, MSGApiMessageFilter, MSGDataIndexed } from 'types';
+import { getAllDBMessageContents, getDBMessageContentsByPath, searchMsgFilesWithKey } from 'database';
+import { matchesSearchFilters, parseSearchQuery } from 'query';
+import { getFileExtension } from 'utils';
+
+/* ------------ PUBLIC API ------------ */
+
+// --> Typed API for other plugins and scripts, available as app.plugins.plugins['msg-handler'].api.
+// All functions use the index database, so that the emails are not parsed again
+export class MsgHandlerAPI extends Events {
+	plugin: MsgHandlerPlugin;
+
+	constructor(plugin: MsgHandlerPlugin) {
+		super();
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Returns the indexed message of the email file or file path provided. For mbox files the first message
+	 * is returned, use listMessages with the folderPath of the file to get all of them
+	 * @param file
+	 * @returns
+	 */
+	getMessage = async (file: TFile | string): Promise<MSGApiMessage | null> => {
+		let filePath = file instanceof TFile ? file.path : file;
+		let records = await getDBMessageContentsByPath({ filePath: filePath });
+		if (records.length === 0) return null;
+		records.sort((a, b) => a.messageOffset - b.messageOffset);
+		return toApiMessage(records[0]);
+	};
+
+	/**
+	 * Searches the indexed messages with the same query syntax as the search view, like
+	 * 'from:alice has:attachment after:2023-01 invoice'. Results are sorted by relevance
+	 * @param query
+	 * @returns
+	 */
+	search = async (query: string): Promise<MSGApiMessage[]> => {
+		let searchQuery = parseSearchQuery(query);
+		if (searchQuery.errors.length > 0) throw new Error(searchQuery.errors.join(', '));
+		// Results only contain the search eligible copies of the records, which are mapped back by their id
+		let records = (await getAllDBMessageContents()).filter((record) =>
+			matchesSearchFilters({ record: record, filters: searchQuery.filters })
+		);
+		let recordsById = new Map(records.map((record) => [record.id, record]));
+		let results = await searchMsgFilesWithKey({ key: searchQuery.fuzzyKey, messageContents: records });
+		return results.map((result) => toApiMessage(recordsById.get(result.obj.id)));
+	};
+
+	/**
+	 * Lists the indexed messages matching the filter provided, sorted by the sent time (newest first)
+	 * @param filter
+	 * @returns
+	 */
+	listMessages = async (filter: MSGApiMessageFilter = {}): Promise<MSGApiMessage[]> => {
+		let after = getFilterTimestamp(filter.after);
+		let before = getFilterTimestamp(filter.before);
+		let folderPath = filter.folderPath ? filter.folderPath.replace(/^\/+|\/+$/g, '') : '';
+		let extensions = filter.extensions?.map((extension) => extension.toLowerCase().replace(/^\./, ''));
+		const contains = (texts: string[], value: string) =>
+			texts.some((text) => text && text.toLowerCase().includes(value.toLowerCase()));
+
+		let records = (await getAllDBMessageContents()).filter((record) => {
+			if (filter.from && !contains([record.senderName, record.senderEmail], filter.from)) return false;
+			if (
+				filter.to &&
+				!contains(
+					record.recipients.map((r) => r.name + ' ' + r.email),
+					filter.to
+				)
+			)
+				return false;
+			if (filter.subject && !contains([record.subject], filter.subject)) return false;
+			if (folderPath && !record.filePath.startsWith(folderPath + '/') && record.filePath !== folderPath)
+				return false;
+			if (extensions && !extensions.includes(getFileExtension(record.filePath))) return false;
+			if (after !== null && !(record.sentTime >= after)) return false;
+			if (before !== null && !(record.sentTime < before)) return false;
+			if (filter.hasAttachments !== undefined && record.attachmentCount > 0 !== filter.hasAttachments)
+				return false;
+			return true;
+		});
+
+		records.sort((a, b) => (b.sentTime ?? 0) - (a.sentTime ?? 0));
+		if (filter.limit !== undefined) records = records.slice(0, filter.limit);
+		return records.map(toApiMessage);
+	};
+
+	/* ------------ CHANGE EVENTS ------------ */
+
+	// Message records of the file are created or updated within the index
+	on(name: 'message-indexed', callback: (filePath: string) => any, ctx?: any): EventRef;
+	// Message records of the deleted file are removed from the index
+	on(name: 'message-deleted', callback: (filePath: string) => any, ctx?: any): EventRef;
+	// Message records are moved to the new path of the renamed file
+	on(name: 'message-renamed', callback: (filePath: string, oldPath: string) => any, ctx?: any): EventRef;
+	// All records are removed from the index while it is being rebuilt
+	on(name: 'index-cleared', callback: () => any, ctx?: any): EventRef;
+	on(name: string, callback: (...data: any) => any, ctx?: any): EventRef {
+		return super.on(name, callback, ctx);
+	}
+}
+
+/* ------------ HELPERS ------------ */
+
+/**
+ * Removes the database id from the record, which is not meaningful outside of the plugin
+ * @param record
+ * @returns
+ */
+const toApiMessage = (record: MSGDataIndexed): MSGApiMessage => {
+	const { id, ...message } = record;
+	return message;
+};
+
+const getFilterTimestamp = (value: number | Date | string | undefined): number | null => {
+	if (value === undefined || value === null || value === '') return null;
+	let date = dayjs(value);
+	return date.isValid() ? date.valueOf() : null;
+};
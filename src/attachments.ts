@@ -0,0 +1,151 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, normalizePath } from 'obsidian';
+import { AttachmentCollisionMode, MSGRenderData, SaveAttachmentsResult } from 'types';
+import { base64ToArrayBuffer, createFolderIfNotExists, sanitizeFileName } from 'utils';
+import { getMessageTemplateValues, renderTemplate } from 'templates';
+import { deleteDBSavedAttachmentsByPath, getDBSavedAttachmentByHash, putDBSavedAttachment } from 'database';
+
+/* ------------ SAVE ATTACHMENTS TO VAULT ------------ */
+
+/**
+ * Saves all attachments of the message into the folder created from the attachment folder pattern of the
+ * settings. Name collisions are handled with the collision mode of the settings and the attachments, which
+ * were already saved to the vault with the same content, are not saved again if deduplication is enabled
+ * @param params
+ * @returns
+ */
+export const saveAllAttachments = async (params: {
+	plugin: MsgHandlerPlugin;
+	msgContent: MSGRenderData;
+	fileName: string;
+}): Promise<SaveAttachmentsResult> => {
+	const { plugin, msgContent, fileName } = params;
+	const { settings } = plugin;
+	let result: SaveAttachmentsResult = { saved: [], skipped: [], duplicates: [] };
+
+	let values = getMessageTemplateValues({ msgContent: msgContent, fileName: fileName });
+	let folderPath = getFolderPathFromPattern(renderTemplate(settings.attachmentFolderPattern, values));
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+
+	for (let attachment of msgContent.attachments) {
+		// Embedded messages don't have any file content to save
+		if (!attachment.fileBase64) continue;
+		let data = base64ToArrayBuffer(attachment.fileBase64);
+		let hash = await getContentHash(data);
+
+		if (settings.deduplicateAttachments) {
+			let savedAttachment = await getDBSavedAttachmentByHash({ hash: hash });
+			let savedFile = savedAttachment
+				? plugin.app.vault.getAbstractFileByPath(savedAttachment.filePath)
+				: null;
+			// Saved file might be changed after it was recorded, so its content is checked again
+			if (savedFile instanceof TFile && (await isFileContentHash({ plugin, file: savedFile, hash, data }))) {
+				result.duplicates.push(savedFile.path);
+				continue;
+			}
+		}
+
+		let file = await saveAttachmentToFolder({
+			plugin: plugin,
+			folderPath: folderPath,
+			fileName: attachment.fileName,
+			data: data,
+			collisionMode: settings.attachmentCollisionMode,
+		});
+		if (file) {
+			result.saved.push(file.path);
+			await putDBSavedAttachment({ hash: hash, filePath: file.path });
+		} else {
+			result.skipped.push(attachment.fileName);
+		}
+	}
+
+	if (settings.logEnabled)
+		console.log(`Attachments of "${msgContent.subject}" are saved to ${folderPath}`, result);
+	return result;
+};
+
+/**
+ * Saves the file content into the folder provided. If a file with the same name exists, it is renamed,
+ * skipped or overwritten by using the collision mode. Returns null if the file is skipped
+ * @param params
+ * @returns
+ */
+export const saveAttachmentToFolder = async (params: {
+	plugin: MsgHandlerPlugin;
+	folderPath: string;
+	fileName: string;
+	data: Uint8Array;
+	collisionMode: AttachmentCollisionMode;
+}): Promise<TFile | null> => {
+	const { plugin, folderPath, data, collisionMode } = params;
+	let fileName = sanitizeFileName(params.fileName) || 'attachment';
+	let prefix = folderPath === '/' || folderPath === '' ? '' : folderPath + '/';
+	let filePath = normalizePath(prefix + fileName);
+	let existingFile = plugin.app.vault.getAbstractFileByPath(filePath);
+
+	if (!existingFile) return await plugin.app.vault.createBinary(filePath, data);
+	if (collisionMode === 'skip') return null;
+	if (collisionMode === 'overwrite' && existingFile instanceof TFile) {
+		// Hash records of the previous content don't point to this file anymore
+		await deleteDBSavedAttachmentsByPath({ filePath: existingFile.path });
+		await plugin.app.vault.modifyBinary(existingFile, data);
+		return existingFile;
+	}
+
+	// Rename: add a counter to the file name until an available path is found
+	let extensionIndex = fileName.lastIndexOf('.');
+	let baseName = extensionIndex > 0 ? fileName.substring(0, extensionIndex) : fileName;
+	let extension = extensionIndex > 0 ? fileName.substring(extensionIndex) : '';
+	let counter = 1;
+	while (plugin.app.vault.getAbstractFileByPath(filePath)) {
+		filePath = normalizePath(`${prefix}${baseName} ${counter}${extension}`);
+		counter++;
+	}
+	return await plugin.app.vault.createBinary(filePath, data);
+};
+
+/* ------------ HELPERS ------------ */
+
+/**
+ * Converts the rendered folder pattern into a valid folder path by sanitizing each folder name
+ * @param renderedPattern
+ * @returns
+ */
+const getFolderPathFromPattern = (renderedPattern: string): string => {
+	let folderNames = renderedPattern
+		.split('/')
+		.map((folderName) => sanitizeFileName(folderName))
+		.filter((folderName) => folderName !== '');
+	return folderNames.length > 0 ? normalizePath(folderNames.join('/')) : '/';
+};
+
+/**
+ * Checks if the file in the vault still has the content of the hash. Files with a different size are not
+ * read to calculate their hash
+ * @param params
+ * @returns
+ */
+const isFileContentHash = async (params: {
+	plugin: MsgHandlerPlugin;
+	file: TFile;
+	hash: string;
+	data: Uint8Array;
+}): Promise<boolean> => {
+	const { plugin, file, hash, data } = params;
+	if (file.stat.size !== data.byteLength) return false;
+	let fileData = new Uint8Array(await plugin.app.vault.readBinary(file));
+	return (await getContentHash(fileData)) === hash;
+};
+
+/**
+ * Calculates the SHA-256 hash of the content as hex string
+ * @param data
+ * @returns
+ */
+const getContentHash = async (data: Uint8Array): Promise<string> => {
+	let hashBuffer = await crypto.subtle.digest('SHA-256', data);
+	return Array.from(new Uint8Array(hashBuffer))
+		.map((byte) => byte.toString(16).padStart(2, '0'))
+		.join('');
+};
@@ -0,0 +1,577 @@
+import dayjs from 'dayjs';
+import {
+	Ext_MSGReader_FileData,
+	MSGAddress,
+	MSGAttendeeRole,
+	MSGAttendeeStatus,
+	MSGCalendarAttendee,
+	MSGCalendarEvent,
+} from 'types';
+
+/* ------------ ICALENDAR PARSING ------------ */
+
+interface ICalProperty {
+	name: string;
+	params: { [name: string]: string };
+	value: string;
+}
+
+interface ICalComponent {
+	name: string;
+	properties: ICalProperty[];
+	components: ICalComponent[];
+}
+
+const WEEKDAYS: { [code: string]: number } = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Parses the first event (VEVENT) of the iCalendar text. Times with a TZID are converted by using the
+ * VTIMEZONE definitions of the calendar or the IANA time zone database. Returns null if there is no event
+ * @param text
+ * @returns
+ */
+export const parseICalendar = (text: string): MSGCalendarEvent | null => {
+	let calendar = parseICalComponents(text).find((component) => component.name === 'VCALENDAR');
+	let event = calendar?.components.find((component) => component.name === 'VEVENT');
+	if (!calendar || !event) return null;
+	let timeZones = calendar.components.filter((component) => component.name === 'VTIMEZONE');
+
+	const getProperty = (name: string) => event.properties.find((property) => property.name === name);
+	const getText = (name: string) => unescapeText(getProperty(name)?.value ?? '');
+
+	let start = parseICalDate({ property: getProperty('DTSTART'), timeZones: timeZones });
+	let end = parseICalDate({ property: getProperty('DTEND'), timeZones: timeZones });
+	// Events without an end can have a duration, all-day events without both last one day
+	let duration = parseICalDuration(getProperty('DURATION')?.value ?? '');
+	let endTime =
+		end.time ??
+		(start.time !== null && duration !== null
+			? start.time + duration
+			: start.time !== null && start.allDay
+			? dayjs(start.time).add(1, 'day').valueOf()
+			: null);
+
+	let organizerProperty = getProperty('ORGANIZER');
+	let recurrenceRule = getProperty('RRULE')?.value ?? '';
+
+	return {
+		method: (calendar.properties.find((property) => property.name === 'METHOD')?.value ?? '').toUpperCase(),
+		uid: getText('UID'),
+		title: getText('SUMMARY'),
+		organizer: organizerProperty ? getICalAddress(organizerProperty) : null,
+		startTime: start.time,
+		endTime: endTime,
+		allDay: start.allDay,
+		timeZone: start.timeZone,
+		location: getText('LOCATION'),
+		attendees: event.properties
+			.filter((property) => property.name === 'ATTENDEE')
+			.map((property) => getICalAttendee(property)),
+		recurrence: recurrenceRule ? describeRecurrenceRule(recurrenceRule) : '',
+		recurrenceRule: recurrenceRule,
+		description: getText('DESCRIPTION'),
+	};
+};
+
+/**
+ * Parses the content lines of the iCalendar text into the nested BEGIN/END components
+ * @param text
+ * @returns
+ */
+const parseICalComponents = (text: string): ICalComponent[] => {
+	let root: ICalComponent = { name: '', properties: [], components: [] };
+	let stack: ICalComponent[] = [root];
+	for (let line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+		let property = parseICalLine(line);
+		if (!property) continue;
+		let current = stack[stack.length - 1];
+		if (property.name === 'BEGIN') {
+			let component: ICalComponent = { name: property.value.toUpperCase(), properties: [], components: [] };
+			current.components.push(component);
+			stack.push(component);
+		} else if (property.name === 'END') {
+			if (stack.length > 1) stack.pop();
+		} else {
+			current.properties.push(property);
+		}
+	}
+	return root.components;
+};
+
+/**
+ * Parses the content line like "ATTENDEE;CN="Doe, Jane";PARTSTAT=ACCEPTED:mailto:jane@example.com"
+ * @param line
+ * @returns
+ */
+const parseICalLine = (line: string): ICalProperty | null => {
+	let quoted = false;
+	let segments: string[] = [];
+	let current = '';
+	for (let i = 0; i < line.length; i++) {
+		let char = line[i];
+		if (char === '"') {
+			quoted = !quoted;
+		} else if (char === ';' && !quoted) {
+			segments.push(current);
+			current = '';
+			continue;
+		} else if (char === ':' && !quoted) {
+			segments.push(current);
+			let [name, ...params] = segments;
+			let property: ICalProperty = {
+				name: name.trim().toUpperCase(),
+				params: {},
+				value: line.substring(i + 1),
+			};
+			for (let param of params) {
+				let separator = param.indexOf('=');
+				if (separator <= 0) continue;
+				property.params[param.substring(0, separator).trim().toUpperCase()] = param
+					.substring(separator + 1)
+					.replace(/^"|"$/g, '');
+			}
+			return property.name ? property : null;
+		}
+		current += char;
+	}
+	return null;
+};
+
+/**
+ * Converts the DTSTART/DTEND property into a timestamp. Dates without time (VALUE=DATE) are all-day dates in
+ * local time, "Z" suffixed times are UTC and times without a time zone are floating (local) times
+ * @param params
+ * @returns
+ */
+const parseICalDate = (params: {
+	property: ICalProperty | undefined;
+	timeZones: ICalComponent[];
+}): { time: number | null; allDay: boolean; timeZone: string } => {
+	const { property, timeZones } = params;
+	let match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec((property?.value ?? '').trim());
+	if (!match) return { time: null, allDay: false, timeZone: '' };
+	let [, year, month, day, hour, minute, second, utc] = match;
+	if (hour === undefined) {
+		return {
+			time: new Date(parseInt(year), parseInt(month) - 1, parseInt(day)).valueOf(),
+			allDay: true,
+			timeZone: '',
+		};
+	}
+	// Wall clock time of the event as if it was UTC
+	let wallTime = Date.UTC(
+		parseInt(year),
+		parseInt(month) - 1,
+		parseInt(day),
+		parseInt(hour),
+		parseInt(minute),
+		parseInt(second ?? '0')
+	);
+	if (utc) return { time: wallTime, allDay: false, timeZone: 'UTC' };
+
+	let tzid = property.params['TZID'] ?? '';
+	let timeZone = timeZones.find((component) =>
+		component.properties.some((p) => p.name === 'TZID' && p.value === tzid)
+	);
+	let offset = !tzid
+		? null
+		: timeZone
+		? getVTimeZoneOffset({ timeZone: timeZone, wallTime: wallTime })
+		: getIANATimeZoneOffset({ tzid: tzid, wallTime: wallTime });
+	if (offset !== null) return { time: wallTime - offset, allDay: false, timeZone: tzid };
+
+	// Unknown time zones (e.g. Windows names without VTIMEZONE) are handled as local time
+	let localTime = new Date(wallTime);
+	return {
+		time: new Date(
+			localTime.getUTCFullYear(),
+			localTime.getUTCMonth(),
+			localTime.getUTCDate(),
+			localTime.getUTCHours(),
+			localTime.getUTCMinutes(),
+			localTime.getUTCSeconds()
+		).valueOf(),
+		allDay: false,
+		timeZone: tzid,
+	};
+};
+
+/**
+ * Returns the UTC offset (milliseconds) of the wall clock time within the VTIMEZONE definition. The latest
+ * STANDARD/DAYLIGHT observance started before the time is used. Yearly rules with BYMONTH and BYDAY
+ * (e.g. last Sunday of March) are supported
+ * @param params
+ * @returns
+ */
+const getVTimeZoneOffset = (params: { timeZone: ICalComponent; wallTime: number }): number | null => {
+	const { timeZone, wallTime } = params;
+	let year = new Date(wallTime).getUTCFullYear();
+	let latest: { start: number; offset: number } | null = null;
+	let earliest: { start: number; offset: number } | null = null;
+
+	for (let observance of timeZone.components) {
+		const getValue = (name: string) => observance.properties.find((p) => p.name === name)?.value ?? '';
+		let offset = parseUTCOffset(getValue('TZOFFSETTO'));
+		let startMatch = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?/.exec(getValue('DTSTART'));
+		if (offset === null || !startMatch) continue;
+		let [, startYear, startMonth, startDay, startHour, startMinute] = startMatch.map((v) =>
+			parseInt(v ?? '0')
+		);
+		let rule = parseRecurrenceRule(getValue('RRULE'));
+
+		let starts: number[] = [];
+		if (rule['FREQ'] === 'YEARLY') {
+			for (let ruleYear of [year - 1, year]) {
+				if (ruleYear < startYear) continue;
+				let month = rule['BYMONTH'] ? parseInt(rule['BYMONTH']) : startMonth;
+				let day = rule['BYDAY']
+					? getNthWeekdayOfMonth({ year: ruleYear, month: month, byDay: rule['BYDAY'] })
+					: rule['BYMONTHDAY']
+					? parseInt(rule['BYMONTHDAY'])
+					: startDay;
+				if (day !== null) starts.push(Date.UTC(ruleYear, month - 1, day, startHour, startMinute));
+			}
+		} else {
+			starts.push(Date.UTC(startYear, startMonth - 1, startDay, startHour, startMinute));
+		}
+
+		for (let start of starts) {
+			if (start <= wallTime && (!latest || start > latest.start)) latest = { start, offset };
+			if (!earliest || start < earliest.start) earliest = { start, offset };
+		}
+	}
+	let observance = latest ?? earliest;
+	return observance ? observance.offset : null;
+};
+
+/**
+ * Returns the UTC offset (milliseconds) of the wall clock time within the IANA time zone like
+ * "Europe/Berlin", null if the time zone is not known
+ * @param params
+ * @returns
+ */
+const getIANATimeZoneOffset = (params: { tzid: string; wallTime: number }): number | null => {
+	const { tzid, wallTime } = params;
+	let formatter: Intl.DateTimeFormat;
+	try {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: tzid.replace(/^\//, ''),
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+		});
+	} catch (err) {
+		return null;
+	}
+	const getOffsetAt = (time: number) => {
+		let parts: { [type: string]: number } = {};
+		formatter.formatToParts(new Date(time)).forEach((part) => (parts[part.type] = parseInt(part.value)));
+		return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - time;
+	};
+	// Offset is checked again at the calculated time, since it might be on the other side of a DST change
+	let offset = getOffsetAt(wallTime);
+	return getOffsetAt(wallTime - offset);
+};
+
+const getICalAddress = (property: ICalProperty): MSGAddress => {
+	return {
+		name: property.params['CN'] ?? '',
+		email: property.value.replace(/^mailto:/i, '').trim(),
+	};
+};
+
+const getICalAttendee = (property: ICalProperty): MSGCalendarAttendee => {
+	let role: MSGAttendeeRole = 'required';
+	let userType = (property.params['CUTYPE'] ?? '').toUpperCase();
+	let participantRole = (property.params['ROLE'] ?? '').toUpperCase();
+	if (userType === 'RESOURCE' || userType === 'ROOM') role = 'resource';
+	else if (participantRole === 'OPT-PARTICIPANT' || participantRole === 'NON-PARTICIPANT') role = 'optional';
+
+	let participationStatus = (property.params['PARTSTAT'] ?? '').toLowerCase();
+	let status: MSGAttendeeStatus = ['accepted', 'declined', 'tentative', 'delegated'].includes(
+		participationStatus
+	)
+		? (participationStatus as MSGAttendeeStatus)
+		: 'needs-action';
+
+	return { ...getICalAddress(property), role: role, status: status };
+};
+
+/* ------------ RECURRENCE ------------ */
+
+const parseRecurrenceRule = (rrule: string): { [part: string]: string } => {
+	let rule: { [part: string]: string } = {};
+	for (let part of rrule.split(';')) {
+		let [key, value] = part.split('=');
+		if (key && value) rule[key.trim().toUpperCase()] = value.trim().toUpperCase();
+	}
+	return rule;
+};
+
+/**
+ * Creates a readable text for the RRULE value like "Every 2 weeks on Monday, Wednesday until 2024-05-31"
+ * @param rrule
+ * @returns
+ */
+export const describeRecurrenceRule = (rrule: string): string => {
+	let rule = parseRecurrenceRule(rrule);
+	let units: { [freq: string]: string } = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+	let unit = units[rule['FREQ']];
+	if (!unit) return rrule;
+	let interval = parseInt(rule['INTERVAL'] ?? '1');
+	let description = interval > 1 ? `Every ${interval} ${unit}s` : `Every ${unit}`;
+	if (rule['BYDAY']) {
+		let days = rule['BYDAY'].split(',').map((byDay) => {
+			let match = /^([+-]?\d+)?([A-Z]{2})$/.exec(byDay);
+			if (!match || WEEKDAYS[match[2]] === undefined) return byDay;
+			let dayName = WEEKDAY_NAMES[WEEKDAYS[match[2]]];
+			if (!match[1]) return dayName;
+			let nth = parseInt(match[1]);
+			return (nth === -1 ? 'last' : nth + getOrdinalSuffix(nth)) + ' ' + dayName;
+		});
+		description += ' on ' + days.join(', ');
+	} else if (rule['BYMONTHDAY']) {
+		description += ' on day ' + rule['BYMONTHDAY'];
+	}
+	if (rule['UNTIL']) {
+		let untilMatch = /^(\d{4})(\d{2})(\d{2})/.exec(rule['UNTIL']);
+		if (untilMatch) description += ` until ${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}`;
+	} else if (rule['COUNT']) {
+		description += `, ${rule['COUNT']} times`;
+	}
+	return description;
+};
+
+/* ------------ MSG MEETINGS ------------ */
+
+/**
+ * Creates the event of the MSG meeting request, response, cancellation or appointment from the meeting
+ * fields. Returns null for other item types
+ * @param params
+ * @returns
+ */
+export const getMSGCalendarEvent = (params: { fileData: Ext_MSGReader_FileData }): MSGCalendarEvent | null => {
+	const { fileData } = params;
+	let messageClass = (fileData.messageClass ?? '').toLowerCase();
+	let isMeeting = messageClass.startsWith('ipm.schedule.meeting');
+	if (!isMeeting && !messageClass.startsWith('ipm.appointment')) return null;
+
+	let method = 'PUBLISH';
+	if (isMeeting) {
+		method = messageClass.includes('.canceled')
+			? 'CANCEL'
+			: messageClass.includes('.resp.')
+			? 'REPLY'
+			: 'REQUEST';
+	}
+	let sender: MSGAddress = { name: fileData.senderName ?? '', email: fileData.senderEmail ?? '' };
+	let recipients = fileData.recipients ?? [];
+
+	let organizer: MSGAddress | null = sender;
+	let attendees: MSGCalendarAttendee[] = [];
+	if (method === 'REPLY') {
+		// Response is sent by the attendee to the organizer
+		let organizerRecipient = recipients.find((r) => !r.recipientType || r.recipientType === 1);
+		organizer = organizerRecipient ? { name: organizerRecipient.name, email: organizerRecipient.email } : null;
+		let status: MSGAttendeeStatus = messageClass.endsWith('.pos')
+			? 'accepted'
+			: messageClass.endsWith('.neg')
+			? 'declined'
+			: messageClass.endsWith('.tent')
+			? 'tentative'
+			: 'needs-action';
+		attendees.push({ ...sender, role: 'required', status: status });
+	} else {
+		for (let recipient of recipients) {
+			if (recipient.recipientFlags & 0x2) continue;
+			if (organizer?.email && recipient.email?.toLowerCase() === organizer.email.toLowerCase()) continue;
+			attendees.push({
+				name: recipient.name ?? '',
+				email: recipient.email ?? '',
+				role:
+					recipient.recipientType === 3
+						? 'resource'
+						: recipient.recipientType === 2
+						? 'optional'
+						: 'required',
+				status: getTrackStatus(recipient.recipientTrackStatus),
+			});
+		}
+	}
+
+	let start = fileData.appointmentStart ?? fileData.startDate;
+	let end = fileData.appointmentEnd ?? fileData.endDate;
+	return {
+		method: method,
+		uid: fileData.globalObjectId
+			? bytesToHex(fileData.globalObjectId)
+			: (fileData.internetMessageId ?? '').replace(/^<|>$/g, ''),
+		title: fileData.subject ?? '',
+		organizer: organizer,
+		startTime: start ? start.valueOf() : null,
+		endTime: end ? end.valueOf() : null,
+		allDay: fileData.appointmentAllDay === true,
+		timeZone: fileData.timeZoneDescription ?? '',
+		location: fileData.location || fileData.where || '',
+		attendees: attendees,
+		recurrence: fileData.recurring !== false ? fileData.recurrencePattern ?? '' : '',
+		recurrenceRule: '',
+		description: fileData.body ?? '',
+	};
+};
+
+const getTrackStatus = (trackStatus: number | undefined): MSGAttendeeStatus => {
+	if (trackStatus === 2) return 'tentative';
+	if (trackStatus === 3) return 'accepted';
+	if (trackStatus === 4) return 'declined';
+	return 'needs-action';
+};
+
+/* ------------ ICALENDAR EXPORT ------------ */
+
+/**
+ * Creates the iCalendar (.ics) content of the event. Times are exported in UTC, all-day events as dates.
+ * The method is PUBLISH, so that importing the file doesn't send any response to the organizer
+ * @param event
+ * @returns
+ */
+export const createICalendar = (event: MSGCalendarEvent): string => {
+	const formatDate = (time: number) =>
+		event.allDay ? dayjs(time).format('YYYYMMDD') : new Date(time).toISOString().replace(/[-:]|\.\d{3}/g, '');
+	const dateProperty = (name: string, time: number) =>
+		event.allDay ? `${name};VALUE=DATE:${formatDate(time)}` : `${name}:${formatDate(time)}`;
+
+	let lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//Obsidian MSG Handler//EN',
+		'METHOD:PUBLISH',
+		'BEGIN:VEVENT',
+		'UID:' + (event.uid || `${Date.now()}@obsidian-msg-handler`),
+		'DTSTAMP:' + new Date().toISOString().replace(/[-:]|\.\d{3}/g, ''),
+		'SUMMARY:' + escapeText(event.title),
+	];
+	if (event.startTime !== null) lines.push(dateProperty('DTSTART', event.startTime));
+	if (event.endTime !== null) lines.push(dateProperty('DTEND', event.endTime));
+	if (event.recurrenceRule) lines.push('RRULE:' + event.recurrenceRule);
+	if (event.location) lines.push('LOCATION:' + escapeText(event.location));
+	if (event.description)
+		lines.push('DESCRIPTION:' + escapeText(event.description.replace(/\r\n/g, '\n').trim()));
+	if (event.organizer?.email) {
+		lines.push(`ORGANIZER${getCommonNameParam(event.organizer.name)}:mailto:${event.organizer.email}`);
+	}
+	for (let attendee of event.attendees) {
+		if (!attendee.email) continue;
+		let role = attendee.role === 'optional' ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT';
+		let userType = attendee.role === 'resource' ? ';CUTYPE=RESOURCE' : '';
+		lines.push(
+			`ATTENDEE${getCommonNameParam(attendee.name)};ROLE=${role}${userType};` +
+				`PARTSTAT=${attendee.status.toUpperCase()}:mailto:${attendee.email}`
+		);
+	}
+	if (event.method === 'CANCEL') lines.push('STATUS:CANCELLED');
+	lines.push('END:VEVENT', 'END:VCALENDAR');
+	return lines.map((line) => foldLine(line)).join('\r\n') + '\r\n';
+};
+
+/**
+ * Formats the time range of the event like "Mon, 15 Jul 2024 10:00 – 11:00". All-day events show only
+ * their dates, their end date is exclusive
+ * @param event
+ * @returns
+ */
+export const formatEventTime = (event: MSGCalendarEvent): string => {
+	if (event.startTime === null) return '-';
+	let start = dayjs(event.startTime);
+	let end = event.endTime !== null ? dayjs(event.endTime) : null;
+	if (event.allDay) {
+		let lastDay = end ? end.subtract(1, 'day') : start;
+		let startText = start.format('ddd, D MMM YYYY');
+		return lastDay.isAfter(start, 'day') ? `${startText} – ${lastDay.format('ddd, D MMM YYYY')}` : startText;
+	}
+	let startText = start.format('ddd, D MMM YYYY HH:mm');
+	if (!end) return startText;
+	return `${startText} – ${end.format(end.isSame(start, 'day') ? 'HH:mm' : 'ddd, D MMM YYYY HH:mm')}`;
+};
+
+/* ------------ HELPERS ------------ */
+
+const unescapeText = (text: string): string => {
+	return text.replace(/\\([nN,;\\])/g, (match, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+};
+
+const escapeText = (text: string): string => {
+	return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+const getCommonNameParam = (name: string): string => {
+	return name ? `;CN="${name.replace(/"/g, "'")}"` : '';
+};
+
+// Content lines longer than 75 characters are folded with a leading space
+const foldLine = (line: string): string => {
+	let parts: string[] = [];
+	for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+		parts.push(line.substring(i, i + (i === 0 ? 75 : 74)));
+	}
+	return parts.join('\r\n ');
+};
+
+const parseICalDuration = (duration: string): number | null => {
+	let match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(duration.trim());
+	if (!match) return null;
+	let [, sign, weeks, days, hours, minutes, seconds] = match;
+	let milliseconds =
+		((parseInt(weeks ?? '0') * 7 + parseInt(days ?? '0')) * 86400 +
+			parseInt(hours ?? '0') * 3600 +
+			parseInt(minutes ?? '0') * 60 +
+			parseInt(seconds ?? '0')) *
+		1000;
+	return sign === '-' ? -milliseconds : milliseconds;
+};
+
+const parseUTCOffset = (offset: string): number | null => {
+	let match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(offset.trim());
+	if (!match) return null;
+	let milliseconds = (parseInt(match[2]) * 3600 + parseInt(match[3]) * 60 + parseInt(match[4] ?? '0')) * 1000;
+	return match[1] === '-' ? -milliseconds : milliseconds;
+};
+
+/**
+ * Returns the day of the month for BYDAY values like "2SU" (second Sunday) or "-1SU" (last Sunday)
+ * @param params
+ * @returns
+ */
+const getNthWeekdayOfMonth = (params: { year: number; month: number; byDay: string }): number | null => {
+	const { year, month, byDay } = params;
+	let match = /^([+-]?\d+)?([A-Z]{2})$/.exec(byDay.split(',')[0]);
+	if (!match || WEEKDAYS[match[2]] === undefined) return null;
+	let nth = parseInt(match[1] ?? '1');
+	let weekday = WEEKDAYS[match[2]];
+	let daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+	if (nth > 0) {
+		let firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+		let day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+		return day <= daysInMonth ? day : null;
+	}
+	let lastWeekday = new Date(Date.UTC(year, month - 1, daysInMonth)).getUTCDay();
+	let day = daysInMonth - ((lastWeekday - weekday + 7) % 7) + (nth + 1) * 7;
+	return day >= 1 ? day : null;
+};
+
+const getOrdinalSuffix = (n: number): string => {
+	if (n % 100 >= 11 && n % 100 <= 13) return 'th';
+	return n % 10 === 1 ? 'st' : n % 10 === 2 ? 'nd' : n % 10 === 3 ? 'rd' : 'th';
+};
+
+const bytesToHex = (bytes: Uint8Array): string => {
+	return Array.from(bytes)
+		.map((byte) => ('0' + byte.toString(16)).slice(-2))
+		.join('')
+		.toUpperCase();
+};
@@ -0,0 +1,159 @@
+/* ------------ CHARACTER SETS ------------ */
+
+// --> Charset labels used by mail clients, which are not known by TextDecoder or should be read differently
+const CHARSET_ALIASES: { [label: string]: string } = {
+	utf8: 'utf-8',
+	gb2312: 'gbk',
+	'x-gbk': 'gbk',
+	'ks_c_5601-1987': 'euc-kr',
+	ks_c_5601: 'euc-kr',
+	sjis: 'shift_jis',
+	'x-sjis': 'shift_jis',
+	ms932: 'shift_jis',
+	'windows-31j': 'shift_jis',
+	cp1252: 'windows-1252',
+	cp1251: 'windows-1251',
+	cp1250: 'windows-1250',
+	'x-mac-roman': 'macintosh',
+};
+
+// --> Windows codepages used by the PidTagMessageCodepage and PidTagInternetCodepage properties of MSG files
+const CODEPAGE_CHARSETS: { [codepage: number]: string } = {
+	874: 'windows-874',
+	932: 'shift_jis',
+	936: 'gbk',
+	949: 'euc-kr',
+	950: 'big5',
+	1200: 'utf-16le',
+	1201: 'utf-16be',
+	1250: 'windows-1250',
+	1251: 'windows-1251',
+	1252: 'windows-1252',
+	1253: 'windows-1253',
+	1254: 'windows-1254',
+	1255: 'windows-1255',
+	1256: 'windows-1256',
+	1257: 'windows-1257',
+	1258: 'windows-1258',
+	10000: 'macintosh',
+	20866: 'koi8-r',
+	21866: 'koi8-u',
+	28591: 'iso-8859-1',
+	28592: 'iso-8859-2',
+	28593: 'iso-8859-3',
+	28594: 'iso-8859-4',
+	28595: 'iso-8859-5',
+	28596: 'iso-8859-6',
+	28597: 'iso-8859-7',
+	28598: 'iso-8859-8',
+	28599: 'iso-8859-9',
+	28603: 'iso-8859-13',
+	28605: 'iso-8859-15',
+	50220: 'iso-2022-jp',
+	50221: 'iso-2022-jp',
+	50222: 'iso-2022-jp',
+	51932: 'euc-jp',
+	51936: 'gbk',
+	51949: 'euc-kr',
+	54936: 'gb18030',
+	65001: 'utf-8',
+};
+
+/**
+ * Returns the charset label of the Windows codepage, null if the codepage is missing or unknown
+ * @param codepage
+ * @returns
+ */
+export const getCodepageCharset = (codepage: number | undefined | null): string | null => {
+	if (codepage === undefined || codepage === null) return null;
+	return CODEPAGE_CHARSETS[codepage] ?? null;
+};
+
+/**
+ * Normalizes the charset label declared within the message and returns it only if it can be decoded.
+ * "us-ascii" is handled as undeclared, since it is often used for 8 bit content by mistake
+ * @param charset
+ * @returns
+ */
+export const getSupportedCharset = (charset: string | undefined | null): string | null => {
+	if (!charset) return null;
+	let label = charset
+		.trim()
+		.replace(/^["']|["']$/g, '')
+		.toLowerCase();
+	if (label === '' || label === 'us-ascii' || label === 'ascii') return null;
+	label = CHARSET_ALIASES[label] ?? label;
+	try {
+		new TextDecoder(label);
+		return label;
+	} catch (err) {
+		return null;
+	}
+};
+
+/**
+ * Guesses the charset of the bytes without a declared charset. ISO-2022-JP is recognized by its escape
+ * sequences, valid UTF-8 is preferred and Windows-1252 is used for any other content
+ * @param bytes
+ * @returns
+ */
+export const detectCharset = (bytes: Uint8Array): string => {
+	for (let i = 0; i + 2 < bytes.length; i++) {
+		if (bytes[i] === 0x1b && bytes[i + 1] === 0x24 && (bytes[i + 2] === 0x42 || bytes[i + 2] === 0x40)) {
+			return 'iso-2022-jp';
+		}
+	}
+	try {
+		new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+		return 'utf-8';
+	} catch (err) {
+		return 'windows-1252';
+	}
+};
+
+/**
+ * Decodes the bytes with the charset provided. If the charset is missing or not supported, it is detected
+ * @param bytes
+ * @param charset
+ * @returns
+ */
+export const decodeBytes = (bytes: Uint8Array, charset?: string | null): string => {
+	let label = getSupportedCharset(charset) ?? detectCharset(bytes);
+	return new TextDecoder(label).decode(bytes);
+};
+
+/**
+ * Decodes the text, which was read with one character per byte (e.g. MSG ANSI strings or raw EML headers).
+ * Texts without 8 bit characters or already decoded texts (with characters above 0xFF) are kept as they are
+ * @param text
+ * @param charset
+ * @returns
+ */
+export const decodeBinaryString = (text: string, charset?: string | null): string => {
+	if (!text || !/[\x80-\xff]/.test(text) || /[^\x00-\xff]/.test(text)) return text;
+	return decodeBytes(binaryStringToBytes(text), charset);
+};
+
+/**
+ * Converts the bytes to a string with one character per byte, which keeps the bytes as they are
+ * @param bytes
+ * @returns
+ */
+export const bytesToBinaryString = (bytes: ArrayLike<number>): string => {
+	let chunks: string[] = [];
+	for (let i = 0; i < bytes.length; i += 8192) {
+		chunks.push(String.fromCharCode.apply(null, Array.prototype.slice.call(bytes, i, i + 8192)));
+	}
+	return chunks.join('');
+};
+
+/**
+ * Converts the string with one character per byte back to the bytes
+ * @param text
+ * @returns
+ */
+export const binaryStringToBytes = (text: string): Uint8Array => {
+	let bytes = new Uint8Array(text.length);
+	for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+	return bytes;
+};
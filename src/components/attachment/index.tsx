@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { MSGAttachment } from 'types';
+import {
+	base64ToArrayBuffer,
+	base64ToText,
+	getAttachmentPreviewType,
+	getMimeType,
+	parseCSV,
+	renderMarkdown,
+} from 'utils';
+
+// --> Large CSV files are cut to keep the preview responsive
+const MAX_CSV_PREVIEW_ROWS = 500;
+
+/* ------------ Main Attachment Preview Component ------------ */
+
+export default function AttachmentPreviewComponent(params: { messageAttachment: MSGAttachment }) {
+	const { messageAttachment } = params;
+	const previewType = getAttachmentPreviewType(messageAttachment.fileExtension);
+
+	if (!messageAttachment.fileBase64 || !previewType) {
+		return <div className="oz-msg-attachment-no-preview">Preview is not available for this file type</div>;
+	}
+
+	switch (previewType) {
+		case 'image':
+			return (
+				<img
+					src={`data:${getMimeType(messageAttachment.fileExtension)};base64,${
+						messageAttachment.fileBase64
+					}`}
+				/>
+			);
+		case 'pdf':
+			return <PDFPreview messageAttachment={messageAttachment} />;
+		case 'csv':
+			return <CSVPreview messageAttachment={messageAttachment} />;
+		case 'markdown':
+			return <MarkdownPreview messageAttachment={messageAttachment} />;
+		default:
+			return (
+				<pre className="oz-msg-attachment-text-preview">{base64ToText(messageAttachment.fileBase64)}</pre>
+			);
+	}
+}
+
+/* ------------ Child Components ------------ */
+
+const PDFPreview = (params: { messageAttachment: MSGAttachment }) => {
+	const { messageAttachment } = params;
+
+	// PDF viewer needs an object url, which is released when the preview is closed
+	const objectUrl = useMemo(() => {
+		let blob = new Blob([base64ToArrayBuffer(messageAttachment.fileBase64)], { type: 'application/pdf' });
+		return URL.createObjectURL(blob);
+	}, [messageAttachment]);
+
+	useEffect(() => {
+		return () => URL.revokeObjectURL(objectUrl);
+	}, [objectUrl]);
+
+	return <iframe className="oz-msg-attachment-pdf-preview" src={objectUrl} />;
+};
+
+const CSVPreview = (params: { messageAttachment: MSGAttachment }) => {
+	const { messageAttachment } = params;
+	const rows = useMemo(() => parseCSV(base64ToText(messageAttachment.fileBase64)), [messageAttachment]);
+	const [headerRow, ...bodyRows] = rows;
+
+	if (!headerRow) return <div className="oz-msg-attachment-no-preview">File is empty</div>;
+
+	return (
+		<div className="oz-msg-attachment-csv-preview">
+			<table>
+				<thead>
+					<tr>
+						{headerRow.map((cell, index) => (
+							<th key={index}>{cell}</th>
+						))}
+					</tr>
+				</thead>
+				<tbody>
+					{bodyRows.slice(0, MAX_CSV_PREVIEW_ROWS).map((row, rowIndex) => (
+						<tr key={rowIndex}>
+							{row.map((cell, index) => (
+								<td key={index}>{cell}</td>
+							))}
+						</tr>
+					))}
+				</tbody>
+			</table>
+			{bodyRows.length > MAX_CSV_PREVIEW_ROWS && (
+				<div className="oz-msg-attachment-no-preview">
+					Showing the first {MAX_CSV_PREVIEW_ROWS} of {bodyRows.length} rows
+				</div>
+			)}
+		</div>
+	);
+};
+
+const MarkdownPreview = (params: { messageAttachment: MSGAttachment }) => {
+	const { messageAttachment } = params;
+	const markdownRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		if (!markdownRef.current) return;
+		markdownRef.current.empty();
+		renderMarkdown(base64ToText(messageAttachment.fileBase64), markdownRef.current);
+	}, [messageAttachment]);
+
+	return <div className="oz-msg-attachment-markdown-preview markdown-rendered" ref={markdownRef} />;
+};
@@ -0,0 +1,167 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, debounce } from 'obsidian';
+import React, { useEffect, useMemo, useState } from 'react';
+import { ContactSortField, MSGContact, MSGDataIndexed } from 'types';
+import { getAllDBMessageContents } from 'database';
+import { getContactDisplayName, getContactMessages, getContacts } from 'contacts';
+import { openFile } from 'utils';
+import { MdKeyboardArrowDown, MdKeyboardArrowRight, MdNoteAdd } from 'react-icons/md';
+import dayjs from 'dayjs';
+
+/* ------------ CONTACTS FULL VIEW RENDER ------------ */
+
+export default function ContactsViewComponent(params: { plugin: MsgHandlerPlugin }) {
+	const { plugin } = params;
+	const [records, setRecords] = useState<MSGDataIndexed[]>();
+	const [filterKey, setFilterKey] = useState<string>('');
+	const [sortField, setSortField] = useState<ContactSortField>('lastContact');
+
+	// --> Contacts are loaded again once the index changes
+	useEffect(() => {
+		const loadRecords = () => getAllDBMessageContents().then((dbRecords) => setRecords(dbRecords));
+		const reloadRecords = debounce(loadRecords, 1000, true);
+		loadRecords();
+		let eventRefs = [
+			plugin.api.on('message-indexed', reloadRecords),
+			plugin.api.on('message-deleted', reloadRecords),
+			plugin.api.on('message-renamed', reloadRecords),
+			plugin.api.on('index-cleared', reloadRecords),
+		];
+		return () => eventRefs.forEach((eventRef) => plugin.api.offref(eventRef));
+	}, []);
+
+	const contacts = useMemo(() => (records ? getContacts({ records: records }) : []), [records]);
+
+	const displayedContacts = useMemo(() => {
+		let key = filterKey.trim().toLowerCase();
+		let filteredContacts = contacts.filter(
+			(contact) =>
+				key === '' ||
+				contact.email.includes(key) ||
+				contact.names.some((name) => name.toLowerCase().includes(key))
+		);
+		return filteredContacts.sort((a, b) => {
+			if (sortField === 'messageCount') return b.messageCount - a.messageCount;
+			if (sortField === 'name') return getContactDisplayName(a).localeCompare(getContactDisplayName(b));
+			return (b.lastContactTime ?? 0) - (a.lastContactTime ?? 0);
+		});
+	}, [contacts, filterKey, sortField]);
+
+	if (!records) return <div className="oz-msg-handler-contacts-loading">Loading contacts...</div>;
+
+	return (
+		<div>
+			<div className="oz-msg-handler-actions-items oz-msg-handler-header-fixed">
+				<span className="oz-msg-handler-contacts-count">{contacts.length} contacts</span>
+				<select
+					className="dropdown oz-msg-handler-sort-select"
+					aria-label="Sort Contacts"
+					value={sortField}
+					onChange={(e) => setSortField(e.target.value as ContactSortField)}>
+					<option value="lastContact">Last Contact</option>
+					<option value="messageCount">Messages</option>
+					<option value="name">Name</option>
+				</select>
+			</div>
+			<div className="oz-searchbox-container">
+				<input
+					type="text"
+					placeholder="Filter by name or email"
+					value={filterKey}
+					onChange={(e) => setFilterKey(e.target.value)}
+				/>
+			</div>
+			<div className="search-result-container">
+				{displayedContacts.length > 0 ? (
+					displayedContacts.map((contact) => (
+						<ContactItem key={contact.email} contact={contact} records={records} plugin={plugin} />
+					))
+				) : (
+					<div className="search-empty-state">No contacts found</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+/* ------------ SINGLE CONTACT VIEW ------------ */
+
+const ContactItem = (params: { contact: MSGContact; records: MSGDataIndexed[]; plugin: MsgHandlerPlugin }) => {
+	const { contact, records, plugin } = params;
+	const [open, setOpen] = useState<boolean>(false);
+
+	// Messages are only collected once the contact is expanded
+	const messages = useMemo(
+		() => (open ? getContactMessages({ records: records, email: contact.email }) : []),
+		[open, records]
+	);
+
+	const createContactNote = (e: React.MouseEvent) => {
+		e.stopPropagation();
+		plugin.createContactNote({
+			contact: contact,
+			messages: getContactMessages({ records: records, email: contact.email }),
+		});
+	};
+
+	const openMessage = (e: React.MouseEvent<HTMLDivElement, MouseEvent>, message: MSGDataIndexed) => {
+		let file = plugin.app.vault.getAbstractFileByPath(message.filePath);
+		if (file instanceof TFile) {
+			openFile({
+				file: file,
+				plugin: plugin,
+				newLeaf: e.ctrlKey || e.metaKey,
+				eState: { messageOffset: message.messageOffset },
+			});
+		}
+	};
+
+	return (
+		<div className="tree-item search-result oz-msg-handler-contact">
+			<div className="tree-item-self search-result-file-title is-clickable" onClick={() => setOpen(!open)}>
+				<div className="tree-item-icon collapse-icon">
+					{open ? <MdKeyboardArrowDown /> : <MdKeyboardArrowRight />}
+				</div>
+				<div className="tree-item-inner">
+					<div className="oz-msg-handler-contact-name">{getContactDisplayName(contact)}</div>
+					<div className="oz-msg-handler-contact-details">
+						{contact.email} · {contact.messageCount} messages ·{' '}
+						{formatContactDate(contact.firstContactTime)} –{' '}
+						{formatContactDate(contact.lastContactTime)}
+					</div>
+					{contact.names.length > 1 && (
+						<div className="oz-msg-handler-contact-details">
+							Also known as {contact.names.slice(1).join(', ')}
+						</div>
+					)}
+				</div>
+				<MdNoteAdd
+					className="oz-msg-handler-action-button oz-msg-handler-contact-note-button"
+					aria-label="Create or Update Person Note"
+					onClick={createContactNote}
+					size={18}
+				/>
+			</div>
+			{open && (
+				<div className="search-result-file-matches">
+					{messages.map((message) => (
+						<div
+							key={message.filePath + '#' + message.messageOffset}
+							className="oz-msg-thread-item oz-cursor-pointer"
+							aria-label={message.filePath}
+							onClick={(e) => openMessage(e, message)}>
+							<span className="oz-msg-thread-item-date">{formatContactDate(message.sentTime)}</span>
+							<span className="oz-msg-thread-item-subject">{message.subject}</span>
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	);
+};
+
+/* ------------ Helper Components ------------ */
+
+const formatContactDate = (time: number | null) => {
+	return time ? dayjs(time).format('YYYY-MM-DD') : '-';
+};
@@ -0,0 +1,164 @@
+import MsgHandlerPlugin from 'main';
+import { TFile } from 'obsidian';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MboxMessage } from 'types';
+import { getMboxMessages } from 'mbox';
+import { MSGContentComponent } from 'components/renderer';
+import { MdArrowDownward, MdArrowUpward } from 'react-icons/md';
+import dayjs from 'dayjs';
+
+type MboxSortField = 'date' | 'sender' | 'subject';
+
+/* ------------ Main Mbox View Component ------------ */
+
+export default function MboxViewComponent(params: {
+	plugin: MsgHandlerPlugin;
+	fileToRender: TFile;
+	selectedOffset: number | null;
+}) {
+	const { plugin, fileToRender } = params;
+	const [mboxMessages, setMboxMessages] = useState<MboxMessage[]>();
+	const [sortField, setSortField] = useState<MboxSortField>('date');
+	const [sortAscending, setSortAscending] = useState<boolean>(false);
+	const [selectedOffset, setSelectedOffset] = useState<number | null>(params.selectedOffset);
+
+	useEffect(() => {
+		getMboxMessages({ plugin: plugin, mboxFile: fileToRender }).then((messages) => {
+			setMboxMessages(messages);
+		});
+	}, []);
+
+	// --> Message can be selected from outside (e.g. search results) while the view is open
+	useEffect(() => {
+		if (params.selectedOffset !== null) setSelectedOffset(params.selectedOffset);
+	}, [params.selectedOffset]);
+
+	const sortedMessages = useMemo(() => {
+		if (!mboxMessages) return [];
+		const getSortValue = (mboxMessage: MboxMessage): string | number => {
+			let msgContent = mboxMessage.msgContent;
+			if (sortField === 'date') return msgContent.sentTime ?? 0;
+			if (sortField === 'sender') return (msgContent.senderName || msgContent.senderEmail).toLowerCase();
+			return msgContent.subject.toLowerCase();
+		};
+		return [...mboxMessages].sort((a, b) => {
+			let valueA = getSortValue(a);
+			let valueB = getSortValue(b);
+			let comparison = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+			return sortAscending ? comparison : -comparison;
+		});
+	}, [mboxMessages, sortField, sortAscending]);
+
+	const selectedMessage = mboxMessages?.find((m) => m.offset === selectedOffset);
+
+	// --> Clicking the same column changes the direction, new column starts with its natural direction
+	const sortBy = (field: MboxSortField) => {
+		if (field === sortField) {
+			setSortAscending(!sortAscending);
+		} else {
+			setSortField(field);
+			setSortAscending(field !== 'date');
+		}
+	};
+
+	if (!mboxMessages) return <div className="oz-msg-handler-mbox-loading">Loading messages...</div>;
+
+	return (
+		<div className="oz-msg-handler-mbox">
+			<div className="oz-msg-handler-mbox-count">{mboxMessages.length} messages</div>
+			<div className="oz-msg-handler-mbox-list">
+				<table>
+					<thead>
+						<tr>
+							<MboxColumnHeader
+								label="Date"
+								field="date"
+								sortField={sortField}
+								sortAscending={sortAscending}
+								sortBy={sortBy}
+							/>
+							<MboxColumnHeader
+								label="Sender"
+								field="sender"
+								sortField={sortField}
+								sortAscending={sortAscending}
+								sortBy={sortBy}
+							/>
+							<MboxColumnHeader
+								label="Subject"
+								field="subject"
+								sortField={sortField}
+								sortAscending={sortAscending}
+								sortBy={sortBy}
+							/>
+						</tr>
+					</thead>
+					<tbody>
+						{sortedMessages.map((mboxMessage) => (
+							<MboxMessageRow
+								key={mboxMessage.offset}
+								mboxMessage={mboxMessage}
+								selected={mboxMessage.offset === selectedOffset}
+								onSelect={() => setSelectedOffset(mboxMessage.offset)}
+							/>
+						))}
+					</tbody>
+				</table>
+			</div>
+			<div className="oz-msg-handler-mbox-reading-pane">
+				{selectedMessage ? (
+					<MSGContentComponent
+						key={selectedMessage.offset}
+						messageContent={selectedMessage.msgContent}
+						fileName={fileToRender.basename}
+						plugin={plugin}
+					/>
+				) : (
+					<div className="oz-msg-handler-mbox-empty">Select a message to read</div>
+				)}
+			</div>
+		</div>
+	);
+}
+
+/* ------------ Child Components ------------ */
+
+const MboxColumnHeader = (params: {
+	label: string;
+	field: MboxSortField;
+	sortField: MboxSortField;
+	sortAscending: boolean;
+	sortBy: (field: MboxSortField) => void;
+}) => {
+	const { label, field, sortField, sortAscending, sortBy } = params;
+	return (
+		<th className="oz-cursor-pointer" onClick={() => sortBy(field)}>
+			{label}
+			{field === sortField &&
+				(sortAscending ? (
+					<MdArrowUpward className="msg-handler-react-icon" />
+				) : (
+					<MdArrowDownward className="msg-handler-react-icon" />
+				))}
+		</th>
+	);
+};
+
+const MboxMessageRow = (params: { mboxMessage: MboxMessage; selected: boolean; onSelect: () => void }) => {
+	const { mboxMessage, selected, onSelect } = params;
+	const { msgContent } = mboxMessage;
+	const rowRef = useRef<HTMLTableRowElement>(null);
+
+	// --> Selected message might be out of the visible area if it is selected from the search results
+	useEffect(() => {
+		if (selected) rowRef.current?.scrollIntoView({ block: 'nearest' });
+	}, [selected]);
+
+	return (
+		<tr ref={rowRef} className={'oz-cursor-pointer' + (selected ? ' is-selected' : '')} onClick={onSelect}>
+			<td>{msgContent.sentTime ? dayjs(msgContent.sentTime).format('YYYY-MM-DD HH:mm') : '-'}</td>
+			<td>{msgContent.senderName || msgContent.senderEmail}</td>
+			<td>{msgContent.subject}</td>
+		</tr>
+	);
+};
@@ -1,16 +1,46 @@
 import MsgHandlerPlugin from 'main';
 import { TFile } from 'obsidian';
-import React, { useEffect, useState } from 'react';
-import { MSGAttachment, MSGRecipient, MSGRenderData } from 'types';
-import { getMsgContent } from 'utils';
-import { MdKeyboardArrowDown, MdKeyboardArrowRight, MdClose } from 'react-icons/md';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+	ComposeAction,
+	MSGAddress,
+	MSGAttachment,
+	MSGAttendeeStatus,
+	MSGCalendarEvent,
+	MSGDataIndexed,
+	MSGEmbedOptions,
+	MSGContactItem,
+	MSGHeader,
+	MSGOutlookItem,
+	MSGRenderData,
+	MSGStickyNoteItem,
+	MSGTaskItem,
+} from 'types';
+import {
+	getAttachmentPreviewType,
+	getDeliveryPath,
+	getMsgContent,
+	getSanitizedMessageHTML,
+	openFile,
+	sanitizeFileName,
+} from 'utils';
+import { createICalendar, formatEventTime } from 'calendar';
+import { TASK_STATUS_LABELS } from 'items';
+import { getDBThreadMessageContents } from 'database';
+import { MdKeyboardArrowDown, MdKeyboardArrowRight, MdClose, MdAttachFile } from 'react-icons/md';
 import { HiChevronDoubleRight, HiChevronDoubleLeft } from 'react-icons/hi';
 import { FolderToSaveSuggestionModal } from 'modals';
+import AttachmentPreviewComponent from 'components/attachment';
+import dayjs from 'dayjs';
 
 /* ------------ Main Renderer Component ------------ */
 
-export default function RendererViewComponent(params: { plugin: MsgHandlerPlugin; fileToRender: TFile }) {
-	const { plugin, fileToRender } = params;
+export default function RendererViewComponent(params: {
+	plugin: MsgHandlerPlugin;
+	fileToRender: TFile;
+	embedOptions?: MSGEmbedOptions;
+}) {
+	const { plugin, fileToRender, embedOptions } = params;
 	const [messageContent, setMessageContent] = useState<MSGRenderData>();
 
 	useEffect(() => {
@@ -19,25 +49,131 @@ export default function RendererViewComponent(params: { plugin: MsgHandlerPlugin
 		});
 	}, []);
 
+	if (!messageContent) return null;
+
+	if (embedOptions?.compact) {
+		return <MSGCompactComponent messageContent={messageContent} fileToRender={fileToRender} plugin={plugin} />;
+	}
+
+	if (embedOptions?.section) {
+		return (
+			<MSGSectionComponent
+				messageContent={messageContent}
+				fileName={fileToRender.basename}
+				plugin={plugin}
+				section={embedOptions.section}
+			/>
+		);
+	}
+
 	return (
-		messageContent && (
-			<>
-				<MSGHeaderComponent messageContent={messageContent} />
-				<MSGBodyComponent messageContent={messageContent} />
-				{messageContent.attachments.length > 0 && (
-					<MSGAttachmentsComponent messageAttachments={messageContent.attachments} plugin={plugin} />
-				)}
-			</>
-		)
+		<>
+			<MSGContentComponent
+				messageContent={messageContent}
+				fileName={fileToRender.basename}
+				plugin={plugin}
+				msgFile={fileToRender}
+			/>
+			<MSGThreadComponent messageContent={messageContent} fileToRender={fileToRender} plugin={plugin} />
+		</>
 	);
 }
 
 /* ------------ Child Components ------------ */
 
-const MSGHeaderComponent = (params: { messageContent: MSGRenderData }) => {
-	const { messageContent } = params;
+// --> Renders a message without the file related parts. Used for the file and for the embedded messages
+export const MSGContentComponent = (params: {
+	messageContent: MSGRenderData;
+	fileName: string;
+	plugin: MsgHandlerPlugin;
+	msgFile?: TFile;
+}) => {
+	const { messageContent, fileName, plugin, msgFile } = params;
+	const { outlookItem } = messageContent;
+	return (
+		<>
+			{outlookItem ? (
+				<MSGOutlookItemComponent messageContent={messageContent} item={outlookItem} />
+			) : (
+				<MSGHeaderComponent messageContent={messageContent} plugin={plugin} />
+			)}
+			{messageContent.calendarEvent && (
+				<MSGEventCardComponent event={messageContent.calendarEvent} msgFile={msgFile} plugin={plugin} />
+			)}
+			{/* Text of sticky notes is already displayed within the note */}
+			{(!outlookItem || (outlookItem.type !== 'note' && messageContent.body.trim() !== '')) && (
+				<MSGBodyComponent messageContent={messageContent} plugin={plugin} />
+			)}
+			{messageContent.attachments.length > 0 && (
+				<MSGAttachmentsComponent messageContent={messageContent} fileName={fileName} plugin={plugin} />
+			)}
+		</>
+	);
+};
+
+// --> Renders only one section of the message for embeds like ![[mail.msg#body]]
+const MSGSectionComponent = (params: {
+	messageContent: MSGRenderData;
+	fileName: string;
+	plugin: MsgHandlerPlugin;
+	section: MSGEmbedOptions['section'];
+}) => {
+	const { messageContent, fileName, plugin, section } = params;
+	if (section === 'header') {
+		return messageContent.outlookItem ? (
+			<MSGOutlookItemComponent messageContent={messageContent} item={messageContent.outlookItem} />
+		) : (
+			<MSGHeaderComponent messageContent={messageContent} plugin={plugin} />
+		);
+	}
+	if (section === 'body') return <MSGBodyComponent messageContent={messageContent} plugin={plugin} />;
+	if (messageContent.attachments.length === 0) {
+		return <div className="oz-msg-handler-no-attachments">No attachments</div>;
+	}
+	return <MSGAttachmentsComponent messageContent={messageContent} fileName={fileName} plugin={plugin} />;
+};
+
+// --> One line summary card for embeds like ![[mail.msg|compact]], opens the email on click
+const MSGCompactComponent = (params: {
+	messageContent: MSGRenderData;
+	fileToRender: TFile;
+	plugin: MsgHandlerPlugin;
+}) => {
+	const { messageContent, fileToRender, plugin } = params;
+	const openMessage = (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
+		openFile({ file: fileToRender, plugin: plugin, newLeaf: e.ctrlKey || e.metaKey });
+	};
+	return (
+		<div
+			className="oz-msg-compact-card oz-cursor-pointer"
+			aria-label={fileToRender.path}
+			onClick={openMessage}>
+			<span className="oz-msg-compact-card-sender">
+				{messageContent.senderName || messageContent.senderEmail}
+			</span>
+			<span className="oz-msg-compact-card-subject">{messageContent.subject}</span>
+			{messageContent.attachments.length > 0 && (
+				<span className="oz-msg-compact-card-attachments">
+					<MdAttachFile />
+					{messageContent.attachments.length}
+				</span>
+			)}
+			<span className="oz-msg-compact-card-date">{formatMessageTime(messageContent.sentTime)}</span>
+		</div>
+	);
+};
+
+const MSGHeaderComponent = (params: { messageContent: MSGRenderData; plugin: MsgHandlerPlugin }) => {
+	const { messageContent, plugin } = params;
 	const [open, setOpen] = useState<boolean>(true);
+	const recipientRows = [
+		{ label: 'To', recipients: messageContent.recipients.filter((r) => r.type === 'to') },
+		{ label: 'CC', recipients: messageContent.recipients.filter((r) => r.type === 'cc') },
+		{ label: 'BCC', recipients: messageContent.recipients.filter((r) => r.type === 'bcc') },
+	];
 	const toggleOpen = () => setOpen(!open);
+	const compose = (action: ComposeAction) =>
+		plugin.composeMessage({ msgContent: messageContent, action: action });
 	return (
 		<>
 			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-header-name">
@@ -46,6 +182,11 @@ const MSGHeaderComponent = (params: { messageContent: MSGRenderData }) => {
 			</h3>
 			{open && (
 				<div className="oz-msg-handler-header">
+					<div className="oz-msg-header-actions">
+						<button onClick={() => compose('reply')}>Reply</button>
+						<button onClick={() => compose('replyAll')}>Reply All</button>
+						<button onClick={() => compose('forward')}>Forward</button>
+					</div>
 					<strong>From</strong>: {messageContent.senderName}
 					{' <'}
 					<a
@@ -58,48 +199,406 @@ const MSGHeaderComponent = (params: { messageContent: MSGRenderData }) => {
 					</a>
 					{'>'}
 					<br></br>
-					<strong>Recipients</strong>: <RecipientList recipients={messageContent.recipients} /> <br></br>
-					<strong>Sent</strong>: {messageContent.creationTime} <br></br>
+					{messageContent.sender && (
+						<>
+							<strong>Sender</strong>: <RecipientList recipients={[messageContent.sender]} />{' '}
+							<br></br>
+						</>
+					)}
+					{messageContent.replyTo.length > 0 && (
+						<>
+							<strong>Reply-To</strong>: <RecipientList recipients={messageContent.replyTo} />{' '}
+							<br></br>
+						</>
+					)}
+					{recipientRows.map(
+						(row) =>
+							row.recipients.length > 0 && (
+								<React.Fragment key={row.label}>
+									<strong>{row.label}</strong>: <RecipientList recipients={row.recipients} />{' '}
+									<br></br>
+								</React.Fragment>
+							)
+					)}
+					<strong>Sent</strong>: {formatMessageTime(messageContent.sentTime)} <br></br>
+					{messageContent.receivedTime && (
+						<>
+							<strong>Received</strong>: {formatMessageTime(messageContent.receivedTime)} <br></br>
+						</>
+					)}
 					<strong>Subject</strong>: {messageContent.subject}
+					{messageContent.headers.length > 0 && (
+						<MSGAllHeadersComponent headers={messageContent.headers} />
+					)}
 				</div>
 			)}
 		</>
 	);
 };
 
-const MSGBodyComponent = (params: { messageContent: MSGRenderData }) => {
-	const { messageContent } = params;
-	const cleanMsgBody = (txt: string) => txt.replace(/[\r\n]+/g, '</br>');
+// --> Event of meeting requests and calendar invitations with meeting note and .ics export actions
+const MSGEventCardComponent = (params: { event: MSGCalendarEvent; msgFile?: TFile; plugin: MsgHandlerPlugin }) => {
+	const { event, msgFile, plugin } = params;
+
+	const createMeetingNote = () => plugin.createMeetingNote({ event: event, msgFile: msgFile });
+
+	const exportICalendar = () => {
+		let modal = new FolderToSaveSuggestionModal(
+			plugin,
+			new TextEncoder().encode(createICalendar(event)),
+			(sanitizeFileName(event.title) || 'Event') + '.ics'
+		);
+		modal.open();
+	};
+
+	return (
+		<div className={'oz-msg-event-card' + (event.method === 'CANCEL' ? ' oz-msg-event-card-cancelled' : '')}>
+			<div className="oz-msg-event-card-type">{EVENT_METHOD_LABELS[event.method] ?? 'Calendar Event'}</div>
+			<div className="oz-msg-event-card-title">{event.title || '(No Title)'}</div>
+			<div className="oz-msg-event-card-details">
+				<strong>When</strong>: {formatEventTime(event)}
+				{event.timeZone && <span className="oz-msg-event-card-timezone"> ({event.timeZone})</span>}
+				<br></br>
+				{event.location && (
+					<>
+						<strong>Where</strong>: {event.location} <br></br>
+					</>
+				)}
+				{event.recurrence && (
+					<>
+						<strong>Recurrence</strong>: {event.recurrence} <br></br>
+					</>
+				)}
+				{event.organizer && (
+					<>
+						<strong>Organizer</strong>: <RecipientList recipients={[event.organizer]} /> <br></br>
+					</>
+				)}
+			</div>
+			{event.attendees.length > 0 && (
+				<ul className="oz-msg-event-card-attendees">
+					{event.attendees.map((attendee, index) => (
+						<li key={index} aria-label={attendee.email}>
+							<span
+								className={
+									'oz-msg-event-attendee-status oz-msg-event-attendee-' + attendee.status
+								}>
+								{ATTENDEE_STATUS_LABELS[attendee.status]}
+							</span>
+							{attendee.name || attendee.email}
+							{attendee.role !== 'required' && (
+								<span className="oz-msg-event-attendee-role"> ({attendee.role})</span>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+			<div className="oz-msg-event-card-actions">
+				<button onClick={createMeetingNote}>Create Meeting Note</button>
+				<button onClick={exportICalendar}>Export .ics</button>
+			</div>
+		</div>
+	);
+};
+
+// --> Contacts, tasks and sticky notes are displayed with their own details instead of the message header
+const MSGOutlookItemComponent = (params: { messageContent: MSGRenderData; item: MSGOutlookItem }) => {
+	const { messageContent, item } = params;
 	const [open, setOpen] = useState<boolean>(true);
 	const toggleOpen = () => setOpen(!open);
 	return (
 		<>
-			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-attachments-body-name">
+			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-header-name">
 				<ToggleIndicator open={open} />
-				Message Body
+				{OUTLOOK_ITEM_LABELS[item.type]}
 			</h3>
+			{open && item.type === 'contact' && <MSGContactComponent contact={item} />}
+			{open && item.type === 'task' && <MSGTaskComponent task={item} subject={messageContent.subject} />}
+			{open && item.type === 'note' && <MSGStickyNoteComponent note={item} text={messageContent.body} />}
+		</>
+	);
+};
+
+const MSGContactComponent = (params: { contact: MSGContactItem }) => {
+	const { contact } = params;
+	const organization = [contact.jobTitle, contact.department, contact.company].filter((part) => part).join(', ');
+	return (
+		<div className="oz-msg-handler-header oz-msg-outlook-item">
+			<div className="oz-msg-outlook-item-title">{contact.displayName || '(No Name)'}</div>
+			{contact.nickname && <div className="oz-msg-outlook-item-subtitle">"{contact.nickname}"</div>}
+			{organization && <div className="oz-msg-outlook-item-subtitle">{organization}</div>}
+			{contact.emails.length > 0 && (
+				<>
+					<strong>Email</strong>: <RecipientList recipients={contact.emails} /> <br></br>
+				</>
+			)}
+			{contact.phones.map((phone) => (
+				<React.Fragment key={phone.label}>
+					<strong>{phone.label}</strong>:{' '}
+					<a
+						aria-label={'tel:' + phone.value}
+						href={'tel:' + phone.value.replace(/[^\d+]/g, '')}
+						className="external-link">
+						{phone.value}
+					</a>{' '}
+					<br></br>
+				</React.Fragment>
+			))}
+			{contact.addresses.map((address) => (
+				<div key={address.label} className="oz-msg-outlook-item-address">
+					<strong>{address.label} Address</strong>:
+					<div className="oz-msg-outlook-item-address-lines">{address.value}</div>
+				</div>
+			))}
+			{contact.website && (
+				<>
+					<strong>Web Page</strong>:{' '}
+					<a
+						href={
+							/^https?:\/\//i.test(contact.website) ? contact.website : 'https://' + contact.website
+						}
+						target="_blank"
+						className="external-link"
+						rel="noopener">
+						{contact.website}
+					</a>{' '}
+					<br></br>
+				</>
+			)}
+			{contact.birthday !== null && (
+				<>
+					<strong>Birthday</strong>: {dayjs(contact.birthday).format('D MMMM YYYY')} <br></br>
+				</>
+			)}
+		</div>
+	);
+};
+
+const MSGTaskComponent = (params: { task: MSGTaskItem; subject: string }) => {
+	const { task, subject } = params;
+	const isOverdue = task.status !== 'completed' && task.dueTime !== null && dayjs().isAfter(task.dueTime, 'day');
+	return (
+		<div className={'oz-msg-handler-header oz-msg-outlook-item oz-msg-task-' + task.status}>
+			<div className="oz-msg-outlook-item-title">{subject || '(No Subject)'}</div>
+			<strong>Status</strong>: {TASK_STATUS_LABELS[task.status]} <br></br>
+			<strong>Complete</strong>:{' '}
+			<progress className="oz-msg-task-progress" max={100} value={task.percentComplete}></progress>{' '}
+			{task.percentComplete}% <br></br>
+			{task.startTime !== null && (
+				<>
+					<strong>Start Date</strong>: {formatItemDate(task.startTime)} <br></br>
+				</>
+			)}
+			{task.dueTime !== null && (
+				<>
+					<strong>Due Date</strong>:{' '}
+					<span className={isOverdue ? 'oz-msg-task-overdue' : ''}>
+						{formatItemDate(task.dueTime)}
+						{isOverdue && ' (Overdue)'}
+					</span>{' '}
+					<br></br>
+				</>
+			)}
+			{task.completedTime !== null && (
+				<>
+					<strong>Date Completed</strong>: {formatItemDate(task.completedTime)} <br></br>
+				</>
+			)}
+			{task.owner && (
+				<>
+					<strong>Owner</strong>: {task.owner} <br></br>
+				</>
+			)}
+			{task.importance !== 'normal' && (
+				<>
+					<strong>Importance</strong>: {task.importance === 'high' ? 'High' : 'Low'} <br></br>
+				</>
+			)}
+		</div>
+	);
+};
+
+const MSGStickyNoteComponent = (params: { note: MSGStickyNoteItem; text: string }) => {
+	const { note, text } = params;
+	return (
+		<div className={'oz-msg-sticky-note oz-msg-sticky-note-' + note.color}>
+			<div className="oz-msg-sticky-note-text">{text.replace(/\r\n/g, '\n').trim()}</div>
+			{note.modifiedTime !== null && (
+				<div className="oz-msg-sticky-note-time">{formatMessageTime(note.modifiedTime)}</div>
+			)}
+		</div>
+	);
+};
+
+const MSGAllHeadersComponent = (params: { headers: MSGHeader[] }) => {
+	const { headers } = params;
+	const [open, setOpen] = useState<boolean>(false);
+	const deliveryPath = useMemo(() => getDeliveryPath({ headers: headers }), [headers]);
+	const toggleOpen = () => setOpen(!open);
+	return (
+		<div className="oz-msg-handler-all-headers">
+			<div onClick={toggleOpen} className="oz-cursor-pointer oz-msg-all-headers-name">
+				<ToggleIndicator open={open} />
+				All Headers
+			</div>
 			{open && (
-				<div
-					className="oz-msg-handler-body"
-					dangerouslySetInnerHTML={{ __html: cleanMsgBody(messageContent.body) }}></div>
+				<>
+					{deliveryPath.length > 0 && (
+						<table className="oz-msg-handler-delivery-path">
+							<thead>
+								<tr>
+									<th>Hop</th>
+									<th>From</th>
+									<th>By</th>
+									<th>With</th>
+									<th>Time</th>
+									<th>Delay</th>
+								</tr>
+							</thead>
+							<tbody>
+								{deliveryPath.map((hop, index) => (
+									<tr key={index}>
+										<td>{index + 1}</td>
+										<td>{hop.from}</td>
+										<td>{hop.by}</td>
+										<td>{hop.with}</td>
+										<td>{formatMessageTime(hop.time)}</td>
+										<td>{formatDelay(hop.delay)}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					<dl className="oz-msg-handler-header-list">
+						{headers.map((header) => (
+							<React.Fragment key={header.name}>
+								<dt>{header.name}</dt>
+								{header.values.length > 1 ? (
+									<dd>
+										<ol>
+											{header.values.map((value, index) => (
+												<li key={index}>{value}</li>
+											))}
+										</ol>
+									</dd>
+								) : (
+									<dd>{header.values[0]}</dd>
+								)}
+							</React.Fragment>
+						))}
+					</dl>
+				</>
 			)}
+		</div>
+	);
+};
+
+const MSGBodyComponent = (params: { messageContent: MSGRenderData; plugin: MsgHandlerPlugin }) => {
+	const { messageContent, plugin } = params;
+	// Body is rendered as text, line breaks are kept by the white-space style of the element
+	const cleanMsgBody = (txt: string) => txt.replace(/[\r\n]+/g, '\n');
+	const hasHTMLBody = messageContent.bodyHTML?.length > 0;
+	const [open, setOpen] = useState<boolean>(true);
+	const [showHTML, setShowHTML] = useState<boolean>(hasHTMLBody);
+	const toggleOpen = () => setOpen(!open);
+	return (
+		<>
+			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-attachments-body-name">
+				<ToggleIndicator open={open} />
+				Message Body
+				{hasHTMLBody && (
+					<button
+						className="oz-msg-body-view-toggle"
+						onClick={(e) => {
+							e.stopPropagation();
+							setShowHTML(!showHTML);
+						}}>
+						{showHTML ? 'Show Plain Text' : 'Show HTML'}
+					</button>
+				)}
+			</h3>
+			{open &&
+				(showHTML ? (
+					<MSGBodyHTMLComponent messageContent={messageContent} plugin={plugin} />
+				) : (
+					<div className="oz-msg-handler-body oz-msg-handler-body-text">
+						{cleanMsgBody(messageContent.body)}
+					</div>
+				))}
 		</>
 	);
 };
 
-const MSGAttachmentsComponent = (params: { messageAttachments: MSGAttachment[]; plugin: MsgHandlerPlugin }) => {
-	const { messageAttachments, plugin } = params;
+const MSGBodyHTMLComponent = (params: { messageContent: MSGRenderData; plugin: MsgHandlerPlugin }) => {
+	const { messageContent, plugin } = params;
+	const frameRef = useRef<HTMLIFrameElement>(null);
+	const [frameHeight, setFrameHeight] = useState<number>(150);
+	// Remote images are blocked unless they are allowed in settings or loaded for this message
+	const [allowRemoteContent, setAllowRemoteContent] = useState<boolean>(plugin.settings.loadRemoteContent);
+
+	const sanitizedHTML = useMemo(
+		() =>
+			getSanitizedMessageHTML({
+				html: messageContent.bodyHTML,
+				attachments: messageContent.attachments,
+				allowRemoteContent: allowRemoteContent,
+			}),
+		[messageContent, allowRemoteContent]
+	);
+
+	// The frame is sandboxed without scripts, its height is adjusted to the content from outside
+	const adjustFrameHeight = () => {
+		let frameDocument = frameRef.current?.contentDocument;
+		if (frameDocument?.documentElement) {
+			setFrameHeight(frameDocument.documentElement.scrollHeight + 20);
+		}
+	};
+
+	return (
+		<div className="oz-msg-handler-body oz-msg-handler-body-html">
+			{sanitizedHTML.remoteContentBlocked && (
+				<div className="oz-msg-remote-content-notice">
+					Remote images are blocked to protect your privacy
+					<button onClick={() => setAllowRemoteContent(true)}>Load Remote Images</button>
+				</div>
+			)}
+			<iframe
+				ref={frameRef}
+				sandbox="allow-same-origin allow-popups allow-popups-to-escape-sandbox"
+				srcDoc={sanitizedHTML.html}
+				onLoad={adjustFrameHeight}
+				style={{ height: frameHeight + 'px' }}
+			/>
+		</div>
+	);
+};
+
+const MSGAttachmentsComponent = (params: {
+	messageContent: MSGRenderData;
+	fileName: string;
+	plugin: MsgHandlerPlugin;
+}) => {
+	const { messageContent, fileName, plugin } = params;
 	const [open, setOpen] = useState<boolean>(true);
 	const toggleOpen = () => setOpen(!open);
+
+	const saveAllAttachments = (e: React.MouseEvent) => {
+		e.stopPropagation();
+		plugin.saveAllAttachments({ msgContent: messageContent, fileName: fileName });
+	};
+
 	return (
 		<>
 			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-attachments-header-name">
 				<ToggleIndicator open={open} />
 				Attachments
+				<button className="oz-msg-save-all-attachments" onClick={saveAllAttachments}>
+					Save All Attachments
+				</button>
 			</h3>
 			{open && (
 				<div className="oz-msg-handler-attachments">
-					{messageAttachments.map((attachment) => {
+					{messageContent.attachments.map((attachment) => {
 						return (
 							<MSGSingleAttachmentComponent
 								key={attachment.fileName}
@@ -121,30 +620,45 @@ const MSGSingleAttachmentComponent = (params: { messageAttachment: MSGAttachment
 
 	const saveFileToVault = () => {
 		let modal = new FolderToSaveSuggestionModal(
-			plugin.app,
+			plugin,
 			messageAttachment.fileBase64,
 			messageAttachment.fileName
 		);
 		modal.open();
 	};
 
-	const imgExtensions: string[] = ['.png', 'png', '.jpg', 'jpg', '.jpeg', 'jpeg'];
+	const openInNewTab = (e: React.MouseEvent) => {
+		e.stopPropagation();
+		plugin.openAttachmentInNewTab({ attachment: messageAttachment });
+	};
+
+	const isEmbeddedMessage = messageAttachment.innerMsgContent !== undefined;
+	const isPreviewable =
+		messageAttachment.fileBase64 && getAttachmentPreviewType(messageAttachment.fileExtension) !== null;
 
 	return (
 		<div className="oz-msg-single-attachment-wrapper">
 			<div onClick={toggleOpen} className="oz-cursor-pointer oz-msg-attachment-name">
-				{imgExtensions.includes(messageAttachment.fileExtension) ? (
+				{isPreviewable || isEmbeddedMessage ? (
 					<ToggleIndicator open={open} />
 				) : (
 					<MdClose className="msg-handler-react-icon" />
 				)}
 				{messageAttachment.fileName}
-				<button onClick={saveFileToVault}>Save File to Vault</button>
+				{!isEmbeddedMessage && <button onClick={saveFileToVault}>Save File to Vault</button>}
+				{messageAttachment.fileBase64 && <button onClick={openInNewTab}>Open in New Tab</button>}
 			</div>
 			{open && (
 				<div className="oz-msg-attachment-display">
-					{imgExtensions.includes(messageAttachment.fileExtension) && (
-						<img src={`data:image/jpeg;base64,${messageAttachment.fileBase64}`} />
+					{isPreviewable && <AttachmentPreviewComponent messageAttachment={messageAttachment} />}
+					{isEmbeddedMessage && (
+						<div className="oz-msg-handler-embedded-message">
+							<MSGContentComponent
+								messageContent={messageAttachment.innerMsgContent}
+								fileName={messageAttachment.fileName.replace(/\.msg$/i, '')}
+								plugin={plugin}
+							/>
+						</div>
 					)}
 				</div>
 			)}
@@ -152,9 +666,110 @@ const MSGSingleAttachmentComponent = (params: { messageAttachment: MSGAttachment
 	);
 };
 
+const MSGThreadComponent = (params: {
+	messageContent: MSGRenderData;
+	fileToRender: TFile;
+	plugin: MsgHandlerPlugin;
+}) => {
+	const { messageContent, fileToRender, plugin } = params;
+	const [threadMessages, setThreadMessages] = useState<MSGDataIndexed[]>([]);
+	const [open, setOpen] = useState<boolean>(true);
+	const toggleOpen = () => setOpen(!open);
+
+	useEffect(() => {
+		getDBThreadMessageContents({ msgContent: messageContent, filePath: fileToRender.path }).then((messages) =>
+			setThreadMessages(messages)
+		);
+	}, [messageContent]);
+
+	const openThreadMessage = (e: React.MouseEvent<HTMLDivElement, MouseEvent>, threadMessage: MSGDataIndexed) => {
+		let file = plugin.app.vault.getAbstractFileByPath(threadMessage.filePath);
+		if (file instanceof TFile) {
+			openFile({
+				file: file,
+				plugin: plugin,
+				newLeaf: e.ctrlKey || e.metaKey,
+				eState: { messageOffset: threadMessage.messageOffset },
+			});
+		}
+	};
+
+	if (threadMessages.length === 0) return null;
+
+	return (
+		<>
+			<h3 onClick={toggleOpen} className="oz-cursor-pointer oz-msg-thread-header-name">
+				<ToggleIndicator open={open} />
+				Conversation ({threadMessages.length + 1} messages)
+			</h3>
+			{open && (
+				<div className="oz-msg-handler-thread">
+					{threadMessages.map((threadMessage) => {
+						return (
+							<div
+								key={threadMessage.filePath + '#' + threadMessage.messageOffset}
+								className="oz-msg-thread-item oz-cursor-pointer"
+								aria-label={threadMessage.filePath}
+								onClick={(e) => openThreadMessage(e, threadMessage)}>
+								<span className="oz-msg-thread-item-date">
+									{formatMessageTime(threadMessage.sentTime)}
+								</span>
+								<span className="oz-msg-thread-item-sender">
+									{threadMessage.senderName || threadMessage.senderEmail}
+								</span>
+								<span className="oz-msg-thread-item-subject">{threadMessage.subject}</span>
+							</div>
+						);
+					})}
+				</div>
+			)}
+		</>
+	);
+};
+
 /* ------------ Helper Components ------------ */
 
-const RecipientList = (params: { recipients: MSGRecipient[] }) => {
+const EVENT_METHOD_LABELS: { [method: string]: string } = {
+	REQUEST: 'Meeting Request',
+	CANCEL: 'Meeting Cancelled',
+	REPLY: 'Meeting Response',
+	COUNTER: 'New Time Proposed',
+	PUBLISH: 'Appointment',
+};
+
+const ATTENDEE_STATUS_LABELS: { [status in MSGAttendeeStatus]: string } = {
+	accepted: 'Accepted',
+	declined: 'Declined',
+	tentative: 'Tentative',
+	delegated: 'Delegated',
+	'needs-action': 'No Response',
+};
+
+const OUTLOOK_ITEM_LABELS: { [type in MSGOutlookItem['type']]: string } = {
+	contact: 'Contact',
+	task: 'Task',
+	note: 'Note',
+};
+
+const formatItemDate = (time: number) => {
+	return dayjs(time).format('ddd, D MMM YYYY');
+};
+
+const formatMessageTime = (time: number | null) => {
+	return time ? dayjs(time).format('ddd, D MMM YYYY HH:mm:ss') : '-';
+};
+
+const formatDelay = (delay: number | null) => {
+	if (delay === null) return '-';
+	let seconds = Math.round(delay / 1000);
+	let sign = seconds < 0 ? '-' : '';
+	seconds = Math.abs(seconds);
+	if (seconds < 60) return `${sign}${seconds}s`;
+	if (seconds < 3600) return `${sign}${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+	return `${sign}${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const RecipientList = (params: { recipients: MSGAddress[] }) => {
 	const { recipients } = params;
 	const [open, setOpen] = useState<boolean>();
 
@@ -1,20 +1,38 @@
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useEffect, useState, useRef, useMemo } from 'react';
 import fuzzysort from 'fuzzysort';
 import MsgHandlerPlugin from 'main';
-import { MdKeyboardArrowDown, MdKeyboardArrowRight } from 'react-icons/md';
+import {
+	MdKeyboardArrowDown,
+	MdKeyboardArrowRight,
+	MdFilterList,
+	MdArrowUpward,
+	MdArrowDownward,
+	MdAttachFile,
+} from 'react-icons/md';
 import { CgChevronDoubleUp, CgChevronDoubleDown } from 'react-icons/cg';
-import { MSGDataIndexedSearchEligible } from 'types';
-import { searchMsgFilesWithKey, getHighlightedPartOfSearchResult } from 'database';
-import { getFileName, replaceNewLinesAndCarriages, openFile, openFileInNewTab, isMouseEvent } from 'utils';
-import { TFile, Menu } from 'obsidian';
+import { MSGDataIndexedSearchEligible, SearchViewOptions, SearchSortField, SearchFileType } from 'types';
+import {
+	searchMsgFilesWithQuery,
+	getHighlightedPartOfSearchResult,
+	getMatchingAttachment,
+	escapeHighlightedResult,
+} from 'database';
+import { parseSearchQuery } from 'query';
+import { getFileName, getFileExtension, replaceNewLinesAndCarriages, openFile, isMouseEvent } from 'utils';
+import { TFile, Menu, debounce } from 'obsidian';
 
 type SearchResultSingleItem = {
 	result: Fuzzysort.KeysResult<MSGDataIndexedSearchEligible>;
 	highlightedResult: string;
+	// Name of the attachment if the search matched the attachments of the email
+	matchedAttachmentName?: string;
 };
 type SearchResultState = SearchResultSingleItem[];
 type AllOpenStatus = 'open' | 'closed' | null;
 
+// --> Index of the attachments within the fuzzy search keys
+const ATTACHMENTS_KEY_INDEX = 5;
+
 /* ------------ SEARCH FULL VIEW RENDER ------------ */
 
 export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }) {
@@ -22,6 +40,42 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 
 	const [searchKey, setSearchKey] = useState<string>();
 	const [searchResults, setSearchResults] = useState<SearchResultState>();
+	const [searchErrors, setSearchErrors] = useState<string[]>([]);
+
+	// Sort and filter options are persisted within the plugin settings
+	const [searchOptions, setSearchOptions] = useState<SearchViewOptions>({
+		...plugin.settings.searchViewOptions,
+	});
+	const [showFilters, setShowFilters] = useState<boolean>(false);
+
+	// --> Options are typed into the filter inputs, so the settings are only written once the typing stops
+	const saveSearchOptions = useMemo(() => debounce(() => plugin.saveSettings(), 1000, true), []);
+
+	// --> Pending changes are saved when the view is closed
+	useEffect(() => {
+		return () => {
+			saveSearchOptions.cancel();
+			plugin.saveSettings();
+		};
+	}, []);
+
+	const updateSearchOptions = (changes: Partial<SearchViewOptions>) => {
+		let newSearchOptions = { ...searchOptions, ...changes };
+		setSearchOptions(newSearchOptions);
+		plugin.settings.searchViewOptions = newSearchOptions;
+		saveSearchOptions();
+	};
+
+	const displayedSearchResults = useMemo(
+		() => (searchResults ? applySearchViewOptions({ searchResults, searchOptions }) : searchResults),
+		[searchResults, searchOptions]
+	);
+
+	const filtersActive =
+		searchOptions.folderPath !== '' ||
+		searchOptions.fileType !== 'all' ||
+		searchOptions.dateFrom !== '' ||
+		searchOptions.dateTo !== '';
 
 	// Helper state to collapse/expand all (inherited in the child components)
 	const [allOpenStatus, setAllOpenStatus] = useState<AllOpenStatus>();
@@ -45,6 +99,7 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 
 		if (searchKey === '' || searchKey === null || searchKey === undefined) {
 			setSearchResults(null);
+			setSearchErrors([]);
 		} else {
 			promiseQueueRef.current.push(runSearch);
 			runPromiseQueue();
@@ -60,16 +115,31 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 	// --> Search Function using Current searchKey
 	const runSearch = async () => {
 		let currentSearchResults = [];
+		// Parse the query, syntax errors are displayed instead of results
+		let query = parseSearchQuery(searchKey);
+		setSearchErrors(query.errors);
+		if (query.errors.length > 0) {
+			setSearchResults(null);
+			return;
+		}
+		// Key used to highlight the matching part: fuzzy key or the first text filter
+		let highlightFilter = query.filters.find(
+			(f) =>
+				!f.negated &&
+				['text', 'from', 'to', 'cc', 'bcc', 'subject', 'body', 'attachment'].includes(f.operator)
+		);
+		let highlightKey = query.fuzzyKey !== '' ? query.fuzzyKey : highlightFilter?.value ?? '';
 		// Get search results
-		let results = await searchMsgFilesWithKey({ key: searchKey });
+		let results = await searchMsgFilesWithQuery({ query: query });
 		// Loop results to populate component state
 		for (let result of results) {
 			let indexOfMaxScore = null;
 			let exactMatch = false;
 			// First check exact match
-			const exactMatchIndex = result.findIndex((r) =>
-				r?.target.toLowerCase().includes(searchKey.toLowerCase())
-			);
+			const exactMatchIndex =
+				highlightKey === ''
+					? -1
+					: result.findIndex((r) => r?.target.toLowerCase().includes(highlightKey.toLowerCase()));
 			if (exactMatchIndex !== -1) {
 				indexOfMaxScore = exactMatchIndex;
 				exactMatch = true;
@@ -88,8 +158,8 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 				// Prepare the exact match text manually
 				let indexOfSearchMatch = result[indexOfMaxScore].target
 					.toLowerCase()
-					.indexOf(searchKey.toLowerCase());
-				let lengthOfSearchKey = searchKey.length;
+					.indexOf(highlightKey.toLowerCase());
+				let lengthOfSearchKey = highlightKey.length;
 				let originalTextOfSearchKey = result[indexOfMaxScore].target.substring(
 					indexOfSearchMatch,
 					indexOfSearchMatch + lengthOfSearchKey
@@ -98,7 +168,7 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 					originalTextOfSearchKey,
 					'<mark class="oz-highlight">' + originalTextOfSearchKey + '</mark>'
 				);
-			} else {
+			} else if (query.fuzzyKey !== '') {
 				highlightedResult = fuzzysort.highlight(
 					result[indexOfMaxScore],
 					'<mark class="oz-highlight">',
@@ -106,18 +176,26 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 				);
 			}
 
-			// If there is a highlighted result, cleanup the new line signs
+			// If there is a highlighted result, cleanup the new line signs and escape the text around the marks
 			if (highlightedResult) {
 				highlightedResult = getHighlightedPartOfSearchResult({
 					highlightedResult: replaceNewLinesAndCarriages(highlightedResult),
-					searchKey: searchKey,
+					searchKey: highlightKey,
 				});
+				highlightedResult = escapeHighlightedResult(highlightedResult);
 			}
 
+			// Point to the matching attachment if the best match is within the attachments
+			let matchedAttachment =
+				ATTACHMENTS_KEY_INDEX === indexOfMaxScore && result[indexOfMaxScore]
+					? getMatchingAttachment({ attachments: result.obj.attachments, searchKey: highlightKey })
+					: undefined;
+
 			// Push for display results
 			currentSearchResults.push({
 				result: result,
 				highlightedResult: highlightedResult,
+				matchedAttachmentName: matchedAttachment?.fileName,
 			});
 		}
 
@@ -140,21 +218,109 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 					onClick={() => setAllOpenStatus('open')}
 					size={20}
 				/>
+				<MdFilterList
+					className={
+						'oz-msg-handler-action-button' + (filtersActive ? ' oz-msg-handler-filters-active' : '')
+					}
+					aria-label="Filter Results"
+					onClick={() => setShowFilters(!showFilters)}
+					size={20}
+				/>
+				<select
+					className="dropdown oz-msg-handler-sort-select"
+					aria-label="Sort Results"
+					value={searchOptions.sortField}
+					onChange={(e) => updateSearchOptions({ sortField: e.target.value as SearchSortField })}>
+					<option value="relevance">Relevance</option>
+					<option value="date">Date</option>
+					<option value="sender">Sender</option>
+					<option value="subject">Subject</option>
+				</select>
+				{searchOptions.sortField !== 'relevance' &&
+					(searchOptions.sortAscending ? (
+						<MdArrowUpward
+							className="oz-msg-handler-action-button"
+							aria-label="Ascending"
+							onClick={() => updateSearchOptions({ sortAscending: false })}
+							size={20}
+						/>
+					) : (
+						<MdArrowDownward
+							className="oz-msg-handler-action-button"
+							aria-label="Descending"
+							onClick={() => updateSearchOptions({ sortAscending: true })}
+							size={20}
+						/>
+					))}
 			</div>
+			{showFilters && (
+				<div className="oz-msg-handler-search-filters">
+					<label>
+						Folder
+						<input
+							type="text"
+							placeholder="All folders"
+							value={searchOptions.folderPath}
+							onChange={(e) => updateSearchOptions({ folderPath: e.target.value })}
+						/>
+					</label>
+					<label>
+						File Type
+						<select
+							className="dropdown"
+							value={searchOptions.fileType}
+							onChange={(e) => updateSearchOptions({ fileType: e.target.value as SearchFileType })}>
+							<option value="all">All</option>
+							<option value="msg">msg</option>
+							<option value="oft">oft</option>
+							<option value="mbox">mbox</option>
+							<option value="eml">eml</option>
+						</select>
+					</label>
+					<label>
+						From
+						<input
+							type="date"
+							value={searchOptions.dateFrom}
+							onChange={(e) => updateSearchOptions({ dateFrom: e.target.value })}
+						/>
+					</label>
+					<label>
+						To
+						<input
+							type="date"
+							value={searchOptions.dateTo}
+							onChange={(e) => updateSearchOptions({ dateTo: e.target.value })}
+						/>
+					</label>
+				</div>
+			)}
 			<div className="oz-searchbox-container">
 				<input
 					type="text"
-					placeholder="Provide a search key"
+					placeholder="Provide a search key or from:, to:, subject:, body:, has:attachment, before:, after:"
 					value={searchKey}
 					onChange={handleInputChange}
 				/>
 			</div>
+			{searchErrors.length > 0 && (
+				<div className="oz-msg-handler-search-errors">
+					{searchErrors.map((error) => (
+						<div key={error}>{error}</div>
+					))}
+				</div>
+			)}
 			<div className="search-result-container">
-				{searchResults &&
-					(searchResults.length > 0 ? (
-						searchResults.map((searchResult) => {
+				{displayedSearchResults &&
+					(displayedSearchResults.length > 0 ? (
+						displayedSearchResults.map((searchResult) => {
 							return (
 								<SearchResultFileMatch
+									key={
+										searchResult.result.obj.filePath +
+										'#' +
+										searchResult.result.obj.messageOffset
+									}
 									searchResult={searchResult}
 									allOpenStatus={allOpenStatus}
 									plugin={plugin}
@@ -169,6 +335,54 @@ export default function SearchViewComponent(params: { plugin: MsgHandlerPlugin }
 	);
 }
 
+/* ------------ SEARCH RESULT FILTER AND SORT ------------ */
+
+/**
+ * Filters the search results with the folder, file type and date range options and sorts them
+ * with the selected field. Relevance keeps the order of the fuzzy search
+ * @param params
+ * @returns
+ */
+const applySearchViewOptions = (params: {
+	searchResults: SearchResultState;
+	searchOptions: SearchViewOptions;
+}): SearchResultState => {
+	const { searchResults, searchOptions } = params;
+	const { folderPath, fileType, dateFrom, dateTo, sortField, sortAscending } = searchOptions;
+
+	let folderPrefix = folderPath.trim().replace(/^\/+|\/+$/g, '');
+	let fromTime = dateFrom ? new Date(dateFrom + 'T00:00:00').getTime() : null;
+	let toTime = dateTo ? new Date(dateTo + 'T23:59:59').getTime() : null;
+
+	let filteredResults = searchResults.filter((searchResult) => {
+		let record = searchResult.result.obj;
+		if (folderPrefix !== '' && !record.filePath.startsWith(folderPrefix + '/')) return false;
+		if (fileType !== 'all' && !record.filePath.toLowerCase().endsWith('.' + fileType)) return false;
+		if (fromTime !== null || toTime !== null) {
+			if (record.sentTime === null || record.sentTime === undefined) return false;
+			if (fromTime !== null && record.sentTime < fromTime) return false;
+			if (toTime !== null && record.sentTime > toTime) return false;
+		}
+		return true;
+	});
+
+	if (sortField === 'relevance') return filteredResults;
+
+	const getSortValue = (searchResult: SearchResultSingleItem): string | number => {
+		let record = searchResult.result.obj;
+		if (sortField === 'date') return record.sentTime ?? 0;
+		if (sortField === 'sender') return (record.senderName || record.senderEmail).toLowerCase();
+		return record.subject.toLowerCase();
+	};
+
+	return filteredResults.sort((a, b) => {
+		let valueA = getSortValue(a);
+		let valueB = getSortValue(b);
+		let comparison = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+		return sortAscending ? comparison : -comparison;
+	});
+};
+
 /* ------------ SINGLE FILE MATCH RESULT VIEW ------------ */
 
 const SearchResultFileMatch = (params: {
@@ -191,6 +405,10 @@ const SearchResultFileMatch = (params: {
 		return plugin.app.vault.getAbstractFileByPath(searchResult.result.obj.filePath);
 	};
 
+	// --> Messages of mbox files are selected within the mbox view
+	const isMboxMessage = plugin.mboxExtensions.contains(getFileExtension(searchResult.result.obj.filePath));
+	const eState = isMboxMessage ? { messageOffset: searchResult.result.obj.messageOffset } : undefined;
+
 	const openFileClicked = (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
 		let file = getCurrentAbstractFile();
 		if (file) {
@@ -199,6 +417,7 @@ const SearchResultFileMatch = (params: {
 				plugin: plugin,
 				newLeaf: (e.ctrlKey || e.metaKey) && !(e.shiftKey || e.altKey),
 				leafBySplit: (e.ctrlKey || e.metaKey) && (e.shiftKey || e.altKey),
+				eState: eState,
 			});
 		}
 	};
@@ -206,7 +425,8 @@ const SearchResultFileMatch = (params: {
 	// --> AuxClick (Mouse Wheel Button Action)
 	const onAuxClick = (e: React.MouseEvent<HTMLDivElement, MouseEvent>) => {
 		let file = getCurrentAbstractFile();
-		if (e.button === 1 && file) openFileInNewTab({ plugin: plugin, file: file as TFile });
+		if (e.button === 1 && file)
+			openFile({ plugin: plugin, file: file as TFile, newLeaf: true, eState: eState });
 	};
 
 	// --> Context Menu
@@ -223,7 +443,7 @@ const SearchResultFileMatch = (params: {
 	};
 
 	return (
-		<div key={searchResult.result.obj.filePath} className="tree-item search-result">
+		<div className="tree-item search-result">
 			<div className="tree-item-self search-result-file-title is-clickable">
 				<div className="tree-item-icon collapse-icon">
 					{open ? (
@@ -238,10 +458,17 @@ const SearchResultFileMatch = (params: {
 					onAuxClick={onAuxClick}
 					onContextMenu={triggerContextMenu}>
 					{getFileName(searchResult.result.obj.filePath)}
+					{isMboxMessage && ' › ' + searchResult.result.obj.subject}
 				</div>
 			</div>
 			{open && searchResult.highlightedResult?.length > 0 && (
 				<div className="search-result-file-matches">
+					{searchResult.matchedAttachmentName && (
+						<div className="oz-msg-handler-search-attachment" onClick={openFileClicked}>
+							<MdAttachFile className="msg-handler-react-icon" />
+							{searchResult.matchedAttachmentName}
+						</div>
+					)}
 					<div
 						className="search-result-file-match"
 						onClick={openFileClicked}
@@ -0,0 +1,313 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, normalizePath } from 'obsidian';
+import dayjs from 'dayjs';
+import { ComposeAction, MSGAddress, MSGAttachment, MSGRenderData } from 'types';
+import { createFolderIfNotExists, getMimeType, sanitizeFileName } from 'utils';
+import { formatAddress } from 'templates';
+import { bytesToBinaryString } from 'charset';
+
+/* ------------ REPLY AND FORWARD ------------ */
+
+export interface ComposedMessage {
+	to: MSGAddress[];
+	cc: MSGAddress[];
+	subject: string;
+	// Plain text body with the quoted or forwarded original message
+	body: string;
+}
+
+// --> Longer mailto: links are cut by some operating systems and mail clients, so the body is shortened
+const MAX_MAILTO_LENGTH = 2000;
+const REPLY_PREFIX_REGEX = /^\s*(re|aw|sv|antw)\s*:/i;
+const FORWARD_PREFIX_REGEX = /^\s*(fw|fwd|wg|tr|rv)\s*:/i;
+
+/**
+ * Creates the reply or forward of the message. Replies go to the Reply-To addresses (or the sender) and
+ * "Reply all" adds the other recipients. Own addresses are removed from the recipients
+ * @param params
+ * @returns
+ */
+export const getComposedMessage = (params: {
+	msgContent: MSGRenderData;
+	action: ComposeAction;
+	ownAddresses: string[];
+}): ComposedMessage => {
+	const { msgContent, action } = params;
+	let ownAddresses = params.ownAddresses.map((address) => address.trim().toLowerCase()).filter((a) => a);
+	const isOwnAddress = (address: MSGAddress) => ownAddresses.includes(address.email.toLowerCase());
+
+	if (action === 'forward') {
+		return {
+			to: [],
+			cc: [],
+			subject: getPrefixedSubject({ subject: msgContent.subject, action: action }),
+			body: '\n\n' + getForwardedText(msgContent),
+		};
+	}
+
+	let from: MSGAddress = { name: msgContent.senderName, email: msgContent.senderEmail };
+	let toRecipients = msgContent.recipients.filter((r) => r.type === 'to');
+	let replyTargets: MSGAddress[] = msgContent.replyTo.length > 0 ? msgContent.replyTo : [from];
+	// Replies to our own sent messages go to their recipients
+	if (msgContent.replyTo.length === 0 && isOwnAddress(from)) replyTargets = toRecipients;
+
+	let to = replyTargets;
+	let cc: MSGAddress[] = [];
+	if (action === 'replyAll') {
+		to = [...replyTargets, ...toRecipients];
+		cc = msgContent.recipients.filter((r) => r.type === 'cc');
+	}
+
+	let seenEmails = new Set<string>();
+	const getUniqueAddresses = (addresses: MSGAddress[]) =>
+		addresses
+			.filter((address) => address.email && !isOwnAddress(address))
+			.filter((address) => {
+				let email = address.email.toLowerCase();
+				if (seenEmails.has(email)) return false;
+				seenEmails.add(email);
+				return true;
+			})
+			.map((address) => ({ name: address.name, email: address.email }));
+
+	return {
+		to: getUniqueAddresses(to),
+		cc: getUniqueAddresses(cc),
+		subject: getPrefixedSubject({ subject: msgContent.subject, action: action }),
+		body: '\n\n' + getQuotedText(msgContent),
+	};
+};
+
+/**
+ * Creates the mailto: link of the composed message with its recipients, subject and body. The body is
+ * shortened if the link gets too long for the mail client
+ * @param message
+ * @returns
+ */
+export const createMailtoUri = (message: ComposedMessage): string => {
+	const encode = (text: string) => encodeURIComponent(text).replace(/%40/g, '@');
+	const getUri = (body: string) => {
+		let query = [
+			message.cc.length > 0 ? 'cc=' + message.cc.map((address) => encode(address.email)).join(',') : '',
+			'subject=' + encode(message.subject),
+			body ? 'body=' + encode(body.replace(/\r?\n/g, '\r\n')) : '',
+		].filter((part) => part);
+		return 'mailto:' + message.to.map((address) => encode(address.email)).join(',') + '?' + query.join('&');
+	};
+
+	let body = message.body;
+	let uri = getUri(body);
+	while (uri.length > MAX_MAILTO_LENGTH && body.length > 0) {
+		body = body.substring(0, Math.floor(body.length * 0.8));
+		uri = getUri(body + '\n[...]');
+	}
+	return uri;
+};
+
+/**
+ * Creates the draft .eml content of the composed message. The X-Unsent header lets Outlook open the file
+ * as a new message ready to be sent. Forwarded messages keep the attachments of the original message
+ * @param params
+ * @returns
+ */
+export const createDraftEml = (params: {
+	message: ComposedMessage;
+	msgContent: MSGRenderData;
+	action: ComposeAction;
+	fromAddress: string;
+}): string => {
+	const { message, msgContent, action, fromAddress } = params;
+	let headers = [
+		`Date: ${dayjs().format('ddd, DD MMM YYYY HH:mm:ss ZZ')}`,
+		fromAddress && `From: ${fromAddress}`,
+		message.to.length > 0 && `To: ${message.to.map((address) => formatHeaderAddress(address)).join(', ')}`,
+		message.cc.length > 0 && `Cc: ${message.cc.map((address) => formatHeaderAddress(address)).join(', ')}`,
+		`Subject: ${encodeHeaderText(message.subject)}`,
+	];
+	if (action !== 'forward' && msgContent.messageId) {
+		let references = [...msgContent.references, msgContent.messageId].map((id) => `<${id}>`);
+		headers.push(`In-Reply-To: <${msgContent.messageId}>`, `References: ${references.join(' ')}`);
+	}
+	headers.push('X-Unsent: 1', 'MIME-Version: 1.0');
+
+	let textPart = [
+		'Content-Type: text/plain; charset=utf-8',
+		'Content-Transfer-Encoding: base64',
+		'',
+		encodeBase64Lines(bytesToBinaryString(new TextEncoder().encode(message.body.replace(/\r?\n/g, '\r\n')))),
+	];
+	let attachments =
+		action === 'forward' ? msgContent.attachments.filter((attachment) => attachment.fileBase64) : [];
+	if (attachments.length === 0) {
+		return [...headers.filter((header) => header), ...textPart].join('\r\n') + '\r\n';
+	}
+
+	let boundary = '----=_Part_' + Math.random().toString(36).substring(2) + Date.now().toString(36);
+	let lines = [
+		...headers.filter((header) => header),
+		`Content-Type: multipart/mixed; boundary="${boundary}"`,
+		'',
+		`--${boundary}`,
+		...textPart,
+	];
+	for (let attachment of attachments) lines.push(`--${boundary}`, ...getAttachmentPart(attachment));
+	lines.push(`--${boundary}--`);
+	return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Saves the draft .eml file of the composed message into the draft folder and returns the created file
+ * @param params
+ * @returns
+ */
+export const saveDraftEml = async (params: {
+	plugin: MsgHandlerPlugin;
+	msgContent: MSGRenderData;
+	action: ComposeAction;
+}): Promise<TFile> => {
+	const { plugin, msgContent, action } = params;
+	let ownAddresses = plugin.settings.ownEmailAddresses;
+	let message = getComposedMessage({ msgContent: msgContent, action: action, ownAddresses: ownAddresses });
+	let emlContent = createDraftEml({
+		message: message,
+		msgContent: msgContent,
+		action: action,
+		fromAddress: ownAddresses[0] ?? '',
+	});
+
+	let folderPath = normalizePath(plugin.settings.draftFolderPath || '/');
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+	let prefix = folderPath === '/' ? '' : folderPath + '/';
+	let fileName = sanitizeFileName(message.subject) || 'Draft';
+	let draftPath = normalizePath(`${prefix}${fileName}.eml`);
+	let counter = 1;
+	while (plugin.app.vault.getAbstractFileByPath(draftPath)) {
+		draftPath = normalizePath(`${prefix}${fileName} ${counter}.eml`);
+		counter++;
+	}
+	return await plugin.app.vault.create(draftPath, emlContent);
+};
+
+/* ------------ HELPERS ------------ */
+
+/**
+ * Adds "Re:" or "Fw:" prefix to the subject unless it already has one (also localized ones like "AW:")
+ * @param params
+ * @returns
+ */
+const getPrefixedSubject = (params: { subject: string; action: ComposeAction }): string => {
+	const { subject, action } = params;
+	let prefixRegex = action === 'forward' ? FORWARD_PREFIX_REGEX : REPLY_PREFIX_REGEX;
+	if (prefixRegex.test(subject)) return subject.trim();
+	return (action === 'forward' ? 'Fw: ' : 'Re: ') + subject.trim();
+};
+
+/**
+ * Quotes the plain text body of the message with "> " after an attribution line like
+ * "On Mon, 3 Apr 2023 at 10:15, Alice <alice@example.com> wrote:"
+ * @param msgContent
+ * @returns
+ */
+const getQuotedText = (msgContent: MSGRenderData): string => {
+	let sender = formatAddress(msgContent.senderName, msgContent.senderEmail);
+	let attribution = msgContent.sentTime
+		? `On ${dayjs(msgContent.sentTime).format('ddd, D MMM YYYY [at] HH:mm')}, ${sender} wrote:`
+		: `${sender} wrote:`;
+	let quotedLines = normalizeBody(msgContent.body)
+		.split('\n')
+		.map((line) => (line ? '> ' + line : '>'));
+	return attribution + '\n' + quotedLines.join('\n');
+};
+
+/**
+ * Creates the forwarded message block with the original header fields and body
+ * @param msgContent
+ * @returns
+ */
+const getForwardedText = (msgContent: MSGRenderData): string => {
+	const formatRecipients = (type: string) =>
+		msgContent.recipients
+			.filter((r) => r.type === type)
+			.map((r) => formatAddress(r.name, r.email))
+			.join(', ');
+	let lines = [
+		'---------- Forwarded message ----------',
+		`From: ${formatAddress(msgContent.senderName, msgContent.senderEmail)}`,
+		msgContent.sentTime ? `Date: ${dayjs(msgContent.sentTime).format('ddd, D MMM YYYY [at] HH:mm')}` : '',
+		`Subject: ${msgContent.subject}`,
+		formatRecipients('to') ? `To: ${formatRecipients('to')}` : '',
+		formatRecipients('cc') ? `Cc: ${formatRecipients('cc')}` : '',
+	].filter((line) => line);
+	return lines.join('\n') + '\n\n' + normalizeBody(msgContent.body);
+};
+
+const normalizeBody = (body: string): string => {
+	return body.replace(/\r\n?/g, '\n').trim();
+};
+
+/**
+ * Formats the address for the message headers. Names with special characters are quoted and non-ASCII
+ * names are encoded as RFC 2047 encoded words
+ * @param address
+ * @returns
+ */
+const formatHeaderAddress = (address: MSGAddress): string => {
+	let name = address.name.trim();
+	if (!name || name === address.email) return address.email;
+	if (/[^\x20-\x7e]/.test(name)) return `${encodeHeaderText(name)} <${address.email}>`;
+	if (/[()<>[\]:;@\\,."]/.test(name)) name = '"' + name.replace(/(["\\])/g, '\\$1') + '"';
+	return `${name} <${address.email}>`;
+};
+
+/**
+ * Encodes the header text with non-ASCII characters as UTF-8 encoded words. Long texts are split into
+ * several encoded words without splitting the characters
+ * @param text
+ * @returns
+ */
+const encodeHeaderText = (text: string): string => {
+	if (!/[^\x20-\x7e]/.test(text)) return text;
+	let encoder = new TextEncoder();
+	let words: string[] = [];
+	let current = '';
+	for (let char of text) {
+		if (encoder.encode(current + char).length > 45) {
+			words.push(current);
+			current = '';
+		}
+		current += char;
+	}
+	if (current) words.push(current);
+	return words.map((word) => `=?UTF-8?B?${btoa(bytesToBinaryString(encoder.encode(word)))}?=`).join('\r\n ');
+};
+
+/**
+ * Encodes the binary string (one character per byte) as base64 with 76 characters per line
+ * @param binaryText
+ * @returns
+ */
+const encodeBase64Lines = (binaryText: string): string => {
+	return (btoa(binaryText).match(/.{1,76}/g) ?? []).join('\r\n');
+};
+
+/**
+ * Creates the MIME part lines of the attachment. Non-ASCII file names are encoded as RFC 2231 parameters
+ * @param attachment
+ * @returns
+ */
+const getAttachmentPart = (attachment: MSGAttachment): string[] => {
+	let fileName = attachment.fileName || 'attachment' + (attachment.fileExtension ?? '');
+	let nameParam = /[^\x20-\x7e]|["\\]/.test(fileName)
+		? `filename*=utf-8''${encodeURIComponent(fileName).replace(
+				/['()*]/g,
+				(char) => '%' + char.charCodeAt(0).toString(16).toUpperCase()
+		  )}`
+		: `filename="${fileName}"`;
+	return [
+		`Content-Type: ${getMimeType(attachment.fileExtension)}`,
+		'Content-Transfer-Encoding: base64',
+		`Content-Disposition: attachment; ${nameParam}`,
+		'',
+		(attachment.fileBase64.replace(/\s/g, '').match(/.{1,76}/g) ?? []).join('\r\n'),
+	];
+};
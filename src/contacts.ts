@@ -0,0 +1,200 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, normalizePath, stringifyYaml } from 'obsidian';
+import dayjs from 'dayjs';
+import { MSGContact, MSGDataIndexed } from 'types';
+import { createFolderIfNotExists, sanitizeFileName } from 'utils';
+
+/* ------------ CONTACT DIRECTORY ------------ */
+
+// --> Markers of the generated email list within the person notes. Content outside of them is kept
+const EMAILS_BLOCK_START = '%% msg-handler-contact-emails-start %%';
+const EMAILS_BLOCK_END = '%% msg-handler-contact-emails-end %%';
+
+/**
+ * Aggregates the senders and recipients of the indexed messages into unique contacts by their email address.
+ * Each message is counted once per contact, even if the address is listed more than once
+ * @param params
+ * @returns
+ */
+export const getContacts = (params: { records: MSGDataIndexed[] }): MSGContact[] => {
+	const { records } = params;
+	let contacts = new Map<string, MSGContact>();
+	let nameCounts = new Map<string, Map<string, number>>();
+
+	for (let record of records) {
+		let addresses = [{ name: record.senderName, email: record.senderEmail }, ...record.recipients];
+		let messageNames = new Map<string, string>();
+		for (let address of addresses) {
+			let email = normalizeEmail(address.email);
+			if (!email) continue;
+			let name = (address.name ?? '').trim();
+			if (!messageNames.get(email)) messageNames.set(email, name.toLowerCase() === email ? '' : name);
+		}
+
+		messageNames.forEach((name, email) => {
+			let contact = contacts.get(email);
+			if (!contact) {
+				contact = {
+					email: email,
+					names: [],
+					messageCount: 0,
+					firstContactTime: null,
+					lastContactTime: null,
+				};
+				contacts.set(email, contact);
+				nameCounts.set(email, new Map());
+			}
+			contact.messageCount++;
+			if (record.sentTime) {
+				if (contact.firstContactTime === null || record.sentTime < contact.firstContactTime)
+					contact.firstContactTime = record.sentTime;
+				if (contact.lastContactTime === null || record.sentTime > contact.lastContactTime)
+					contact.lastContactTime = record.sentTime;
+			}
+			if (name) {
+				let counts = nameCounts.get(email);
+				counts.set(name, (counts.get(name) ?? 0) + 1);
+			}
+		});
+	}
+
+	// Most frequent display name is used as the name of the contact
+	contacts.forEach((contact, email) => {
+		contact.names = Array.from(nameCounts.get(email).entries())
+			.sort((a, b) => b[1] - a[1])
+			.map(([name]) => name);
+	});
+	return Array.from(contacts.values());
+};
+
+/**
+ * Returns the messages sent by or to the contact email, sorted by the sent time (newest first)
+ * @param params
+ * @returns
+ */
+export const getContactMessages = (params: { records: MSGDataIndexed[]; email: string }): MSGDataIndexed[] => {
+	const { records, email } = params;
+	return records
+		.filter(
+			(record) =>
+				normalizeEmail(record.senderEmail) === email ||
+				record.recipients.some((r) => normalizeEmail(r.email) === email)
+		)
+		.sort((a, b) => (b.sentTime ?? 0) - (a.sentTime ?? 0));
+};
+
+/**
+ * Returns the display name of the contact, email is used if no name is available
+ * @param contact
+ * @returns
+ */
+export const getContactDisplayName = (contact: MSGContact): string => {
+	return contact.names.length > 0 ? contact.names[0] : contact.email;
+};
+
+/**
+ * Creates the person note of the contact within the contact note folder or updates the existing one, which is
+ * found by the email within its frontmatter. Only the frontmatter and the generated email list are updated
+ * @param params
+ * @returns
+ */
+export const createOrUpdateContactNote = async (params: {
+	plugin: MsgHandlerPlugin;
+	contact: MSGContact;
+	messages: MSGDataIndexed[];
+}): Promise<TFile> => {
+	const { plugin, contact, messages } = params;
+	let folderPath = normalizePath(plugin.settings.contactNoteFolderPath || '/');
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+
+	let frontmatter = {
+		email: contact.email,
+		aliases: contact.names,
+		messageCount: contact.messageCount,
+		firstContact: contact.firstContactTime ? dayjs(contact.firstContactTime).format('YYYY-MM-DD') : '',
+		lastContact: contact.lastContactTime ? dayjs(contact.lastContactTime).format('YYYY-MM-DD') : '',
+	};
+
+	let noteFile = findContactNote({ plugin: plugin, folderPath: folderPath, email: contact.email });
+	if (noteFile) {
+		await plugin.app.fileManager.processFrontMatter(noteFile, (fm) => Object.assign(fm, frontmatter));
+		let emailsBlock = getEmailsBlock({ plugin: plugin, messages: messages, notePath: noteFile.path });
+		await plugin.app.vault.process(noteFile, (data) => {
+			let start = data.indexOf(EMAILS_BLOCK_START);
+			let end = data.indexOf(EMAILS_BLOCK_END);
+			if (start === -1 || end === -1 || end < start) return data.trimEnd() + '\n\n' + emailsBlock + '\n';
+			return data.substring(0, start) + emailsBlock + data.substring(end + EMAILS_BLOCK_END.length);
+		});
+		if (plugin.settings.logEnabled) console.log(`Contact note is updated for ${contact.email}`);
+		return noteFile;
+	}
+
+	let noteName = sanitizeFileName(getContactDisplayName(contact)) || sanitizeFileName(contact.email);
+	let prefix = folderPath === '/' ? '' : folderPath + '/';
+	let notePath = normalizePath(`${prefix}${noteName}.md`);
+	// A note with the same name might belong to another contact
+	if (plugin.app.vault.getAbstractFileByPath(notePath)) {
+		notePath = normalizePath(`${prefix}${noteName} (${sanitizeFileName(contact.email)}).md`);
+	}
+	let noteContent =
+		'---\n' +
+		stringifyYaml(frontmatter) +
+		'---\n' +
+		`# ${getContactDisplayName(contact)}\n\n` +
+		getEmailsBlock({ plugin: plugin, messages: messages, notePath: notePath }) +
+		'\n';
+	noteFile = await plugin.app.vault.create(notePath, noteContent);
+	if (plugin.settings.logEnabled) console.log(`Contact note is created for ${contact.email} at ${notePath}`);
+	return noteFile;
+};
+
+/* ------------ HELPERS ------------ */
+
+/**
+ * Lowercases the email address and removes the surrounding brackets or quotes. Addresses without "@"
+ * (e.g. Exchange X500 addresses) are ignored
+ * @param email
+ * @returns
+ */
+const normalizeEmail = (email: string): string => {
+	let normalized = (email ?? '')
+		.trim()
+		.replace(/^['"<]+|['">]+$/g, '')
+		.toLowerCase();
+	return normalized.includes('@') ? normalized : '';
+};
+
+const findContactNote = (params: {
+	plugin: MsgHandlerPlugin;
+	folderPath: string;
+	email: string;
+}): TFile | null => {
+	const { plugin, folderPath, email } = params;
+	let prefix = folderPath === '/' ? '' : folderPath + '/';
+	let notes = plugin.app.vault.getMarkdownFiles().filter((file) => file.path.startsWith(prefix));
+	for (let note of notes) {
+		let noteEmail = plugin.app.metadataCache.getFileCache(note)?.frontmatter?.email;
+		if (typeof noteEmail === 'string' && noteEmail.toLowerCase() === email) return note;
+	}
+	return null;
+};
+
+const getEmailsBlock = (params: { plugin: MsgHandlerPlugin; messages: MSGDataIndexed[]; notePath: string }) => {
+	const { plugin, messages, notePath } = params;
+	let lines = messages.map((message) => {
+		let date = message.sentTime ? dayjs(message.sentTime).format('YYYY-MM-DD') : '-';
+		let file = plugin.app.vault.getAbstractFileByPath(message.filePath);
+		let subject = message.subject || '(No Subject)';
+		let link =
+			file instanceof TFile
+				? plugin.app.fileManager.generateMarkdownLink(
+						file,
+						notePath,
+						undefined,
+						subject.replace(/[|\[\]]/g, '')
+				  )
+				: subject;
+		return `- ${date} ${link}`;
+	});
+	return EMAILS_BLOCK_START + '\n## Emails\n\n' + lines.join('\n') + '\n' + EMAILS_BLOCK_END;
+};
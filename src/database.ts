@@ -1,22 +1,152 @@
 import Dexie from 'dexie';
 import { TFile } from 'obsidian';
 import MsgHandlerPlugin from 'main';
-import { MSGDataIndexed, MSGBaseData, MSGDataIndexedSearchEligible } from 'types';
-import { getMsgContent } from 'utils';
+import {
+	MSGAttachment,
+	MSGAttachmentIndexed,
+	MSGDataIndexed,
+	MSGRenderData,
+	MSGDataIndexedSearchEligible,
+	SavedAttachmentIndexed,
+} from 'types';
+import { base64ToText, escapeHTML, getBase64Size, getMimeType, getMsgContent, getTextFromHTML } from 'utils';
+import { getMboxMessages } from 'mbox';
+import { getOutlookItemText } from 'items';
+import { SearchQuery, matchesSearchFilters } from 'query';
 import fuzzysort from 'fuzzysort';
 
 // --> Custom Class from Dexie to Handle Indexed DB
 export class MsgHandlerDatabase extends Dexie {
 	dbMessageContents!: Dexie.Table<MSGDataIndexed, number>;
+	dbSavedAttachments!: Dexie.Table<SavedAttachmentIndexed, string>;
 
 	constructor() {
 		super('MsgHandlerDatabase');
 		this.version(1).stores({
 			dbMessageContents: '++id, senderName, senderEmail, recipients, subject, body, &filePath, mtime',
 		});
+		// Version 2 adds the attachment count to the records. The field is not indexed, so the schema is the
+		// same as version 1
+		this.version(2)
+			.stores({
+				dbMessageContents: '++id, senderName, senderEmail, recipients, subject, body, &filePath, mtime',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						record.attachmentCount = 0;
+						markRecordOutdated(record);
+					})
+			);
+		// Version 3 stores sent/received timestamps instead of the formatted creation time and the
+		// recipient types (to, cc, bcc)
+		this.version(3)
+			.stores({
+				dbMessageContents:
+					'++id, senderName, senderEmail, recipients, subject, body, &filePath, mtime, sentTime, receivedTime',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						// Creation time was formatted as "ddd, D MMM YYYY HH:mm:ss" or "-" if it was missing
+						let sentTime = record.creationTime ? new Date(record.creationTime).getTime() : NaN;
+						record.sentTime = isNaN(sentTime) ? null : sentTime;
+						record.receivedTime = null;
+						delete record.creationTime;
+						// To and CC recipients were merged, their types are only known after parsing again
+						record.recipients = (record.recipients ?? []).map((r) => ({ ...r, type: 'to' }));
+						markRecordOutdated(record);
+					})
+			);
+		// Version 4 stores the conversation threading ids (Message-ID, In-Reply-To, References)
+		this.version(4)
+			.stores({
+				dbMessageContents:
+					'++id, senderName, senderEmail, recipients, subject, body, &filePath, mtime, sentTime, receivedTime, messageId, inReplyTo, *references',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						record.messageId = '';
+						record.inReplyTo = '';
+						record.references = [];
+						markRecordOutdated(record);
+					})
+			);
+		// Version 5 stores the messages of mbox files, which are identified by file path and message offset.
+		// Earlier records are single message files, which have the offset 0
+		this.version(5)
+			.stores({
+				dbMessageContents:
+					'++id, senderName, senderEmail, recipients, subject, body, filePath, &[filePath+messageOffset], mtime, sentTime, receivedTime, messageId, inReplyTo, *references',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						record.messageOffset = 0;
+					})
+			);
+		// Version 6 stores the content hashes of the attachments saved to the vault
+		this.version(6).stores({
+			dbSavedAttachments: '&hash, filePath',
+		});
+		// Version 7 stores the attachment details and texts. Only the messages with attachments are parsed again
+		this.version(7)
+			.stores({
+				dbMessageContents:
+					'++id, senderName, senderEmail, recipients, subject, body, filePath, &[filePath+messageOffset], mtime, sentTime, receivedTime, messageId, inReplyTo, *references',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						record.attachments = [];
+						if (record.attachmentCount !== 0) markRecordOutdated(record);
+					})
+			);
+		// Version 8 stores the item type and the details of contacts and tasks. Meetings of eml and mbox files
+		// are recognized by their calendar attachment, msg and oft files are parsed again to read their item type
+		this.version(8)
+			.stores({
+				dbMessageContents:
+					'++id, senderName, senderEmail, recipients, subject, body, filePath, &[filePath+messageOffset], mtime, sentTime, receivedTime, messageId, inReplyTo, *references',
+			})
+			.upgrade((tx) =>
+				tx
+					.table('dbMessageContents')
+					.toCollection()
+					.modify((record: LegacyDBMessageRecord) => {
+						let hasCalendar = (record.attachments ?? []).some(
+							(a) => a.mimeType === 'text/calendar' || a.fileName.toLowerCase().endsWith('.ics')
+						);
+						record.itemType = hasCalendar ? 'meeting' : 'message';
+						if (/\.(msg|oft)$/i.test(record.filePath ?? '')) markRecordOutdated(record);
+					})
+			);
 	}
 }
 
+// --> Record of the earlier schema versions, which is migrated within the upgrade functions
+type LegacyDBMessageRecord = Partial<MSGDataIndexed> & { creationTime?: string };
+
+/**
+ * Records missing the data, which can't be derived from the stored fields, get an outdated mtime. Only
+ * their files are parsed again during the vault sync and their current records stay searchable until then
+ * @param record
+ */
+const markRecordOutdated = (record: LegacyDBMessageRecord) => {
+	record.mtime = 0;
+};
+
 // --> Create Custom Class DB Instance
 const pluginDb = new MsgHandlerDatabase();
 
@@ -53,18 +183,189 @@ export const getDBMessageContentsByPath = async (params: { filePath: string }):
  * This function will save provided msgContent with the meta data coming from file into the database
  * @param { msgContent: CustomMessageContent, file: TFile }
  */
-export const createDBMessageContent = async (params: { msgContent: MSGBaseData; file: TFile }) => {
+export const createDBMessageContent = async (params: { msgContent: MSGRenderData; file: TFile }) => {
 	const { msgContent, file } = params;
-	await pluginDb.dbMessageContents.add({
+	await pluginDb.dbMessageContents.add(getDBMessageRecord({ msgContent, file }));
+};
+
+/**
+ * This function will update the record with provided id using the msgContent and the meta data coming from file
+ * @param { id: number, msgContent: CustomMessageContent, file: TFile }
+ */
+export const updateDBMessageContent = async (params: { id: number; msgContent: MSGRenderData; file: TFile }) => {
+	const { id, msgContent, file } = params;
+	await pluginDb.dbMessageContents.update(id, getDBMessageRecord({ msgContent, file }));
+};
+
+/**
+ * Checks if the file was changed on disk after its record was indexed (compared by mtime and size)
+ * @param params
+ * @returns
+ */
+export const isDBMessageContentOutdated = (params: { dbMsgContent: MSGDataIndexed; file: TFile }): boolean => {
+	const { dbMsgContent, file } = params;
+	return dbMsgContent.mtime !== file.stat.mtime || dbMsgContent.size !== file.stat.size;
+};
+
+/**
+ * Creates the record to be stored in the database from msgContent and the file meta data
+ * @param params
+ * @returns
+ */
+const getDBMessageRecord = (params: {
+	msgContent: MSGRenderData;
+	file: TFile;
+	messageOffset?: number;
+}): MSGDataIndexed => {
+	const { msgContent, file, messageOffset } = params;
+	return {
 		senderName: msgContent.senderName,
 		senderEmail: msgContent.senderEmail,
 		recipients: msgContent.recipients,
-		creationTime: msgContent.creationTime,
-		body: msgContent.body,
+		sentTime: msgContent.sentTime,
+		receivedTime: msgContent.receivedTime,
+		// Details of contacts and tasks (phones, addresses, status) are searched together with the body
+		body: msgContent.outlookItem
+			? [getOutlookItemText(msgContent.outlookItem), msgContent.body].filter((text) => text).join('\n')
+			: msgContent.body,
 		subject: msgContent.subject,
+		messageId: msgContent.messageId,
+		inReplyTo: msgContent.inReplyTo,
+		references: msgContent.references,
+		itemType: msgContent.itemType,
 		filePath: file.path,
+		messageOffset: messageOffset ?? 0,
 		mtime: file.stat.mtime,
-	} as MSGDataIndexed);
+		size: file.stat.size,
+		attachmentCount: msgContent.attachments.length,
+		attachments: msgContent.attachments.map((attachment) => getDBAttachmentRecord(attachment)),
+	};
+};
+
+// --> Attachments, which have their text extracted for the search
+const TEXT_ATTACHMENT_EXTENSIONS = ['txt', 'csv', 'md', 'html', 'htm', 'ics'];
+const MAX_ATTACHMENT_TEXT_LENGTH = 50000;
+
+/**
+ * Creates the attachment details to be stored within the message record
+ * @param attachment
+ * @returns
+ */
+const getDBAttachmentRecord = (attachment: MSGAttachment): MSGAttachmentIndexed => {
+	let extension = attachment.fileExtension ? attachment.fileExtension.replace(/^\./, '').toLowerCase() : '';
+	let text = '';
+	if (attachment.fileBase64 && TEXT_ATTACHMENT_EXTENSIONS.includes(extension)) {
+		try {
+			text = base64ToText(attachment.fileBase64);
+			if (extension === 'html' || extension === 'htm') text = getTextFromHTML(text);
+		} catch (err) {
+			text = '';
+		}
+	}
+	return {
+		fileName: attachment.fileName,
+		size: attachment.fileBase64 ? getBase64Size(attachment.fileBase64) : 0,
+		mimeType: attachment.innerMsgContent ? 'application/vnd.ms-outlook' : getMimeType(extension),
+		text: text.substring(0, MAX_ATTACHMENT_TEXT_LENGTH),
+	};
+};
+
+/**
+ * Parses the file and creates its record in the database or updates the existing records of the file
+ * @param params
+ */
+export const indexDBMessageContent = async (params: { plugin: MsgHandlerPlugin; file: TFile }) => {
+	const { plugin, file } = params;
+	if (plugin.mboxExtensions.contains(file.extension)) {
+		await indexDBMboxMessageContents({ plugin: plugin, file: file });
+		return;
+	}
+	let msgContent = await getMsgContent({ plugin: plugin, msgFile: file });
+	// Lookup and write are done within one transaction, so a concurrent indexing of the same file (e.g. from
+	// the create event) can't add a second record for the path
+	await pluginDb.transaction('rw', pluginDb.dbMessageContents, async () => {
+		let dbMsgContents = await getDBMessageContentsByPath({ filePath: file.path });
+		if (dbMsgContents.length === 0) {
+			await createDBMessageContent({ msgContent: msgContent, file: file });
+		}
+		for (let dbMsgContent of dbMsgContents) {
+			await updateDBMessageContent({ id: dbMsgContent.id, msgContent: msgContent, file: file });
+		}
+	});
+};
+
+/**
+ * Parses all messages of the mbox file and replaces the existing records of the file with them
+ * @param params
+ */
+const indexDBMboxMessageContents = async (params: { plugin: MsgHandlerPlugin; file: TFile }) => {
+	const { plugin, file } = params;
+	let mboxMessages = await getMboxMessages({ plugin: plugin, mboxFile: file });
+	await pluginDb.transaction('rw', pluginDb.dbMessageContents, async () => {
+		await pluginDb.dbMessageContents.where('filePath').equals(file.path).delete();
+		await pluginDb.dbMessageContents.bulkAdd(
+			mboxMessages.map((mboxMessage) =>
+				getDBMessageRecord({
+					msgContent: mboxMessage.msgContent,
+					file: file,
+					messageOffset: mboxMessage.offset,
+				})
+			)
+		);
+	});
+};
+
+/**
+ * Deletes all message contents from the database
+ */
+export const clearDBMessageContents = async () => {
+	await pluginDb.dbMessageContents.clear();
+};
+
+/**
+ * Finds the other indexed messages within the same conversation as the provided message. Messages are
+ * linked through their Message-ID, In-Reply-To and References headers. Results are sorted by sent time
+ * @param params
+ * @returns Promise<MSGDataIndexed[]>
+ */
+export const getDBThreadMessageContents = async (params: {
+	msgContent: MSGRenderData;
+	filePath: string;
+}): Promise<MSGDataIndexed[]> => {
+	const { msgContent, filePath } = params;
+	const getThreadIds = (m: { messageId: string; inReplyTo: string; references: string[] }) =>
+		[m.messageId, m.inReplyTo, ...(m.references ?? [])].filter((id) => id);
+
+	let knownIds = new Set<string>(getThreadIds(msgContent));
+	let pendingIds = Array.from(knownIds);
+	let threadRecords = new Map<number, MSGDataIndexed>();
+
+	// Follow the links between the messages until no new message is found
+	while (pendingIds.length > 0) {
+		let records = await pluginDb.dbMessageContents
+			.where('messageId')
+			.anyOf(pendingIds)
+			.or('inReplyTo')
+			.anyOf(pendingIds)
+			.or('references')
+			.anyOf(pendingIds)
+			.toArray();
+		pendingIds = [];
+		for (let record of records) {
+			if (threadRecords.has(record.id)) continue;
+			threadRecords.set(record.id, record);
+			for (let id of getThreadIds(record)) {
+				if (!knownIds.has(id)) {
+					knownIds.add(id);
+					pendingIds.push(id);
+				}
+			}
+		}
+	}
+
+	return Array.from(threadRecords.values())
+		.filter((record) => record.filePath !== filePath)
+		.sort((a, b) => (a.sentTime ?? 0) - (b.sentTime ?? 0));
 };
 
 /**
@@ -78,13 +379,52 @@ export const deleteDBMessageContentById = async (params: { id: number | undefine
 };
 
 /**
- * This function is designed to cross check vault msg files with db message contents and sync them
+ * Get the record of the attachment saved to the vault with the provided content hash
+ * @param params
+ * @returns
+ */
+export const getDBSavedAttachmentByHash = async (params: {
+	hash: string;
+}): Promise<SavedAttachmentIndexed | undefined> => {
+	return await pluginDb.dbSavedAttachments.get(params.hash);
+};
+
+/**
+ * Saves the content hash of the attachment saved to the vault. Existing record of the hash is replaced
+ * @param params
+ */
+export const putDBSavedAttachment = async (params: { hash: string; filePath: string }) => {
+	await pluginDb.dbSavedAttachments.put({ hash: params.hash, filePath: params.filePath });
+};
+
+/**
+ * Deletes the content hash records of the file path, which are outdated after the file is overwritten or deleted
+ * @param params
+ */
+export const deleteDBSavedAttachmentsByPath = async (params: { filePath: string }) => {
+	await pluginDb.dbSavedAttachments.where('filePath').equals(params.filePath).delete();
+};
+
+/**
+ * Updates the file path of the content hash records after the saved attachment is renamed or moved
+ * @param params
+ */
+export const updateDBSavedAttachmentsPath = async (params: { oldValue: string; newValue: string }) => {
+	const { oldValue, newValue } = params;
+	await pluginDb.dbSavedAttachments.where('filePath').equals(oldValue).modify({ filePath: newValue });
+};
+
+/**
+ * This function is designed to cross check vault msg files with db message contents. Records of the files
+ * that don't exist anymore are deleted and the files that are not indexed or modified since they were
+ * indexed are returned to be indexed
  * @param { plugin: MsgHandlerPlugin }
+ * @returns Promise<TFile[]>
  */
-export const syncDatabaseWithVaultFiles = async (params: { plugin: MsgHandlerPlugin }) => {
+export const syncDatabaseWithVaultFiles = async (params: { plugin: MsgHandlerPlugin }): Promise<TFile[]> => {
 	const { plugin } = params;
 
-	let msgFiles = plugin.app.vault.getFiles().filter((f) => plugin.acceptedExtensions.contains(f.extension));
+	let msgFiles = plugin.app.vault.getFiles().filter((f) => plugin.isIndexedFile(f));
 	let dbMsgContents = await getAllDBMessageContents();
 
 	// Loop db message contents to see if they exist in the vault
@@ -93,31 +433,48 @@ export const syncDatabaseWithVaultFiles = async (params: { plugin: MsgHandlerPlu
 			await deleteDBMessageContentById({ id: dbMsgContent.id });
 		}
 	}
-	// Create the msgFiles in DB, which do not exist
+	// Collect the msgFiles, which do not exist in DB or are modified since they were indexed
+	let filesToIndex: TFile[] = [];
 	for (let msgFile of msgFiles) {
-		if (!dbMsgContents.some((c) => c.filePath === msgFile.path)) {
-			let msgContent = await getMsgContent({ plugin: plugin, msgFile: msgFile });
-			await createDBMessageContent({
-				msgContent: msgContent,
-				file: msgFile,
-			});
+		let dbMsgContent = dbMsgContents.find((c) => c.filePath === msgFile.path);
+		if (!dbMsgContent || isDBMessageContentOutdated({ dbMsgContent: dbMsgContent, file: msgFile })) {
+			filesToIndex.push(msgFile);
 		}
 	}
+	return filesToIndex;
 };
 
 /**
- * This will search Indexed DB with the provided key and return Fuzzy Results
+ * This will search Indexed DB with the provided query. Records are filtered with the query filters
+ * first and the remaining ones are ranked with the fuzzy key of the query
  * @param params
  * @returns
  */
-export const searchMsgFilesWithKey = async (params: { key: string }) => {
-	// Get all Message Contents from DB Indexed
+export const searchMsgFilesWithQuery = async (params: { query: SearchQuery }) => {
+	const { query } = params;
+	// Get all Message Contents from DB Indexed, which satisfy the query filters
 	let allDBMessageContents: MSGDataIndexed[] = await getAllDBMessageContents();
+	let filteredMessageContents = allDBMessageContents.filter((messageContent) =>
+		matchesSearchFilters({ record: messageContent, filters: query.filters })
+	);
+	return searchMsgFilesWithKey({ key: query.fuzzyKey, messageContents: filteredMessageContents });
+};
+
+/**
+ * This will search the provided message contents (or all Indexed DB records) with the provided key and
+ * return Fuzzy Results. If the key is empty, all message contents are returned
+ * @param params
+ * @returns
+ */
+export const searchMsgFilesWithKey = async (params: { key: string; messageContents?: MSGDataIndexed[] }) => {
+	// Get all Message Contents from DB Indexed if they are not provided
+	let allDBMessageContents: MSGDataIndexed[] = params.messageContents ?? (await getAllDBMessageContents());
 	// Create New Variable to Store the Contents and Convert all Fields to String
 	let searchConvenientMessageContents: MSGDataIndexedSearchEligible[] = allDBMessageContents.map(
 		(messageContent) => ({
 			...messageContent,
 			recipients: messageContent.recipients.map((r) => r.name + ' <' + r.email + '>').join(', '),
+			attachmentsText: getAttachmentsSearchText(messageContent.attachments),
 		})
 	);
 	// Evaluate the fields and get the best result
@@ -125,8 +482,9 @@ export const searchMsgFilesWithKey = async (params: { key: string }) => {
 		params.key,
 		searchConvenientMessageContents,
 		{
-			keys: ['senderName', 'senderEmail', 'subject', 'body', 'recipients'],
+			keys: ['senderName', 'senderEmail', 'subject', 'body', 'recipients', 'attachmentsText'],
 			threshold: -20000,
+			all: true,
 			scoreFn: (a) => {
 				const searchKey = params.key.toLowerCase();
 				const exactMatch =
@@ -134,7 +492,8 @@ export const searchMsgFilesWithKey = async (params: { key: string }) => {
 					a[1]?.target.toLowerCase().includes(searchKey) ||
 					a[2]?.target.toLowerCase().includes(searchKey) ||
 					a[3]?.target.toLowerCase().includes(searchKey) ||
-					a[4]?.target.toLowerCase().includes(searchKey);
+					a[4]?.target.toLowerCase().includes(searchKey) ||
+					a[5]?.target.toLowerCase().includes(searchKey);
 				if (exactMatch) {
 					return 0;
 				} else {
@@ -144,7 +503,15 @@ export const searchMsgFilesWithKey = async (params: { key: string }) => {
 					let subjectScore = a[2] ? a[2].score : -100000;
 					let bodyScore = a[3] ? a[3].score : -100000;
 					let recipientsScore = a[4] ? a[4].score : -100000;
-					return Math.max(senderNameScore, senderEmailScore, subjectScore, bodyScore, recipientsScore);
+					let attachmentsScore = a[5] ? a[5].score : -100000;
+					return Math.max(
+						senderNameScore,
+						senderEmailScore,
+						subjectScore,
+						bodyScore,
+						recipientsScore,
+						attachmentsScore
+					);
 				}
 			},
 		}
@@ -152,6 +519,33 @@ export const searchMsgFilesWithKey = async (params: { key: string }) => {
 	return results;
 };
 
+/**
+ * Combines the names and texts of the attachments into a single searchable text
+ * @param attachments
+ * @returns
+ */
+const getAttachmentsSearchText = (attachments: MSGAttachmentIndexed[]): string => {
+	return (attachments ?? []).map((a) => (a.text ? a.fileName + ': ' + a.text : a.fileName)).join(' | ');
+};
+
+/**
+ * Finds the attachment of the record, which matches the search key by its name or text
+ * @param params
+ * @returns
+ */
+export const getMatchingAttachment = (params: {
+	attachments: MSGAttachmentIndexed[];
+	searchKey: string;
+}): MSGAttachmentIndexed | undefined => {
+	const { attachments, searchKey } = params;
+	if (!searchKey) return undefined;
+	let key = searchKey.toLowerCase();
+	return (
+		(attachments ?? []).find((a) => a.fileName.toLowerCase().includes(key)) ??
+		(attachments ?? []).find((a) => a.text.toLowerCase().includes(key))
+	);
+};
+
 /**
  * Pass the string coming from fuzzysort, which includes <mark> items to hightlight
  * matches within the text. It will return appropriate part of the text to show
@@ -214,3 +608,17 @@ export const getHighlightedPartOfSearchResult = (params: { highlightedResult: st
 		return '...' + highlightedResult.substring(startIndex, endIndex) + '...';
 	}
 };
+
+/**
+ * Escapes the text of the highlighted result, so only the highlight marks are rendered as HTML. Bodies and
+ * attachments can contain markup, which must not be rendered within the search view
+ * @param highlightedResult
+ * @returns
+ */
+export const escapeHighlightedResult = (highlightedResult: string): string => {
+	// --> Marks are at the odd indexes, since they are captured by the split
+	return highlightedResult
+		.split(/(<mark class="oz-highlight">|<\/mark>)/)
+		.map((part, index) => (index % 2 === 1 ? part : escapeHTML(part)))
+		.join('');
+};
@@ -0,0 +1,64 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, normalizePath } from 'obsidian';
+import { getFileExtension, getMsgContentFromData, createFolderIfNotExists, sanitizeFileName } from 'utils';
+import { getMessageTemplateValues, renderTemplate } from 'templates';
+import { saveAttachmentToFolder } from 'attachments';
+
+/* ------------ IMPORT DROPPED/PASTED EMAILS ------------ */
+
+/**
+ * Returns the email files (msg, eml, oft) within the dropped or pasted files. Transfers which also contain
+ * other files are left to Obsidian, so an empty list is returned for them
+ * @param params
+ * @returns
+ */
+export const getEmailFilesFromDataTransfer = (params: {
+	plugin: MsgHandlerPlugin;
+	dataTransfer: DataTransfer | null;
+}): File[] => {
+	const { plugin, dataTransfer } = params;
+	if (!dataTransfer || !dataTransfer.files) return [];
+	let files = Array.from(dataTransfer.files);
+	let emailFiles = files.filter((file) => plugin.acceptedExtensions.contains(getFileExtension(file.name)));
+	return emailFiles.length === files.length ? emailFiles : [];
+};
+
+/**
+ * Copies the email files into the import folder of the settings. Files are named with the import file name
+ * template by using the content of the email. Returns the created vault files
+ * @param params
+ * @returns
+ */
+export const importEmailFiles = async (params: { plugin: MsgHandlerPlugin; files: File[] }): Promise<TFile[]> => {
+	const { plugin, files } = params;
+	const { settings } = plugin;
+	let folderPath = normalizePath(settings.importFolderPath || '/');
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+
+	let importedFiles: TFile[] = [];
+	for (let file of files) {
+		let extension = getFileExtension(file.name);
+		let data = await file.arrayBuffer();
+		let originalName = file.name.substring(0, file.name.length - extension.length - 1);
+		let fileName = originalName;
+		try {
+			let msgContent = await getMsgContentFromData({ data: data, extension: extension });
+			let values = getMessageTemplateValues({ msgContent: msgContent, fileName: originalName });
+			fileName = sanitizeFileName(renderTemplate(settings.importFileName, values)) || originalName;
+		} catch (err) {
+			// File is imported with its original name if its content can't be read
+			if (settings.logEnabled) console.log(`Email content could not be read for ${file.name}`, err);
+		}
+		// Vault create event indexes the file through the handleFileCreate of the plugin
+		let importedFile = await saveAttachmentToFolder({
+			plugin: plugin,
+			folderPath: folderPath,
+			fileName: fileName + '.' + extension,
+			data: new Uint8Array(data),
+			collisionMode: 'rename',
+		});
+		importedFiles.push(importedFile);
+		if (settings.logEnabled) console.log(`Email ${file.name} is imported to ${importedFile.path}`);
+	}
+	return importedFiles;
+};
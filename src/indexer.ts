@@ -0,0 +1,145 @@
+import MsgHandlerPlugin from 'main';
+import { TFile } from 'obsidian';
+import { indexDBMessageContent } from 'database';
+import { IndexingError } from 'types';
+
+/* ------------ BACKGROUND INDEXING QUEUE ------------ */
+
+// --> Indexes msg/eml files into the database in the background with bounded concurrency.
+// Progress is displayed within the status bar and a failing file doesn't stop the run
+export class MsgHandlerIndexQueue {
+	plugin: MsgHandlerPlugin;
+	statusBarEl: HTMLElement;
+	queue: TFile[] = [];
+	// Paths of the files being indexed at the moment
+	indexingPaths = new Set<string>();
+	running = 0;
+	total = 0;
+	done = 0;
+	paused = false;
+	errors: IndexingError[] = [];
+
+	constructor(plugin: MsgHandlerPlugin, statusBarEl: HTMLElement) {
+		this.plugin = plugin;
+		this.statusBarEl = statusBarEl;
+		this.statusBarEl.addClass('mod-clickable');
+		this.statusBarEl.addEventListener('click', this.handleStatusBarClick);
+		this.updateStatusBar();
+	}
+
+	get isActive(): boolean {
+		return this.queue.length > 0 || this.running > 0;
+	}
+
+	/**
+	 * Adds the files to the queue (files already waiting in the queue are skipped) and starts indexing. Files
+	 * being indexed at the moment are queued again, since they might be changed after their indexing started
+	 * @param files
+	 */
+	enqueue = (files: TFile[]) => {
+		if (!this.isActive) {
+			this.total = 0;
+			this.done = 0;
+			this.errors = [];
+		}
+		for (let file of files) {
+			if (this.queue.some((f) => f.path === file.path)) continue;
+			this.queue.push(file);
+			this.total++;
+		}
+		this.updateStatusBar();
+		this.processQueue();
+	};
+
+	pause = () => {
+		this.paused = true;
+		this.updateStatusBar();
+	};
+
+	resume = () => {
+		this.paused = false;
+		this.updateStatusBar();
+		this.processQueue();
+	};
+
+	/**
+	 * Removes all waiting files from the queue. Files which are being indexed at the moment are completed
+	 */
+	clear = () => {
+		this.total -= this.queue.length;
+		this.queue = [];
+		this.updateStatusBar();
+	};
+
+	processQueue = () => {
+		let concurrency = Math.max(1, this.plugin.settings.indexingConcurrency);
+		while (!this.paused && this.running < concurrency) {
+			// Queued files being indexed at the moment wait until their current run is completed, so the same
+			// file is never indexed twice at once
+			let index = this.queue.findIndex((f) => !this.indexingPaths.has(f.path));
+			if (index === -1) break;
+			let [file] = this.queue.splice(index, 1);
+			this.indexingPaths.add(file.path);
+			this.running++;
+			this.indexFile(file).finally(() => {
+				this.indexingPaths.delete(file.path);
+				this.running--;
+				this.done++;
+				this.updateStatusBar();
+				if (!this.isActive) this.handleQueueCompleted();
+				else this.processQueue();
+			});
+		}
+	};
+
+	indexFile = async (file: TFile) => {
+		try {
+			// File might be deleted or renamed while waiting in the queue
+			if (!(this.plugin.app.vault.getAbstractFileByPath(file.path) instanceof TFile)) return;
+			await indexDBMessageContent({ plugin: this.plugin, file: file });
+			this.plugin.api.trigger('message-indexed', file.path);
+		} catch (err) {
+			this.errors.push({ filePath: file.path, message: err instanceof Error ? err.message : String(err) });
+			if (this.plugin.settings.logEnabled)
+				console.log(`DB Index Record could not be created for ${file.path}`, err);
+		}
+	};
+
+	handleQueueCompleted = () => {
+		if (this.plugin.settings.logEnabled) {
+			console.log(`Vault DB Sync is completed for MSG Files (${this.errors.length} failed)`);
+		}
+	};
+
+	handleStatusBarClick = () => {
+		if (!this.isActive) return;
+		if (this.paused) this.resume();
+		else this.pause();
+	};
+
+	updateStatusBar = () => {
+		if (this.isActive) {
+			let progress = `${this.done}/${this.total} emails`;
+			this.statusBarEl.setText(this.paused ? `Indexing paused ${progress}` : `Indexing ${progress}`);
+			this.statusBarEl.setAttribute('aria-label', this.paused ? 'Click to resume' : 'Click to pause');
+			this.statusBarEl.show();
+		} else if (this.errors.length > 0) {
+			this.statusBarEl.setText(`${this.errors.length} emails failed to index`);
+			this.statusBarEl.setAttribute(
+				'aria-label',
+				this.errors
+					.slice(0, 10)
+					.map((e) => `${e.filePath}: ${e.message}`)
+					.join('\n')
+			);
+			this.statusBarEl.show();
+		} else {
+			this.statusBarEl.hide();
+		}
+	};
+
+	destroy = () => {
+		this.queue = [];
+		this.statusBarEl.removeEventListener('click', this.handleStatusBarClick);
+	};
+}
@@ -0,0 +1,222 @@
+import {
+	Ext_MSGReader_FileData,
+	MSGAddress,
+	MSGContactItem,
+	MSGImportance,
+	MSGLabeledValue,
+	MSGOutlookItem,
+	MSGStickyNoteColor,
+	MSGStickyNoteItem,
+	MSGTaskItem,
+	MSGTaskStatus,
+} from 'types';
+
+/* ------------ OUTLOOK ITEMS ------------ */
+
+// --> Values of PidLidTaskStatus, PidTagImportance and PidLidNoteColor in their order
+const TASK_STATUSES: MSGTaskStatus[] = ['not-started', 'in-progress', 'completed', 'waiting', 'deferred'];
+const IMPORTANCES: MSGImportance[] = ['low', 'normal', 'high'];
+const NOTE_COLORS: MSGStickyNoteColor[] = ['blue', 'green', 'pink', 'yellow', 'white'];
+
+export const TASK_STATUS_LABELS: { [status in MSGTaskStatus]: string } = {
+	'not-started': 'Not started',
+	'in-progress': 'In progress',
+	completed: 'Completed',
+	waiting: 'Waiting on someone else',
+	deferred: 'Deferred',
+};
+
+/**
+ * Creates the contact, task or sticky note from the fields of the MSG file by using its message class.
+ * Returns null for messages, meeting requests and appointments
+ * @param params
+ * @returns
+ */
+export const getMSGOutlookItem = (params: { fileData: Ext_MSGReader_FileData }): MSGOutlookItem | null => {
+	const { fileData } = params;
+	let messageClass = (fileData.messageClass ?? '').toLowerCase();
+	if (messageClass.startsWith('ipm.contact')) {
+		return getContactItem({ fileData: fileData });
+	} else if (messageClass.startsWith('ipm.task')) {
+		return getTaskItem({ fileData: fileData });
+	} else if (messageClass.startsWith('ipm.stickynote')) {
+		return getStickyNoteItem({ fileData: fileData });
+	}
+	return null;
+};
+
+/**
+ * Returns the title of the item, which is used as subject if the item doesn't have one. Contacts are named
+ * by their display name and sticky notes by the first line of their text
+ * @param params
+ * @returns
+ */
+export const getOutlookItemTitle = (params: { item: MSGOutlookItem; body: string }): string => {
+	const { item, body } = params;
+	if (item.type === 'contact') return item.displayName;
+	if (item.type === 'note') return (body.trim().split(/\r?\n/)[0] ?? '').trim();
+	return '';
+};
+
+/**
+ * Returns the searchable text of the item details, which are not part of the body (e.g. phones and
+ * addresses of contacts or the status of tasks)
+ * @param item
+ * @returns
+ */
+export const getOutlookItemText = (item: MSGOutlookItem): string => {
+	if (item.type === 'contact') {
+		return [
+			item.displayName,
+			item.nickname,
+			item.company,
+			item.jobTitle,
+			item.department,
+			item.website,
+			...item.emails.map((email) => email.email),
+			...item.phones.map((phone) => phone.value),
+			...item.addresses.map((address) => address.value.replace(/\n/g, ', ')),
+		]
+			.filter((text) => text)
+			.join('\n');
+	} else if (item.type === 'task') {
+		return [TASK_STATUS_LABELS[item.status], item.owner].filter((text) => text).join('\n');
+	}
+	return '';
+};
+
+/* ------------ HELPERS ------------ */
+
+const getContactItem = (params: { fileData: Ext_MSGReader_FileData }): MSGContactItem => {
+	const { fileData } = params;
+	let fullName = [
+		fileData.displayNamePrefix,
+		fileData.givenName,
+		fileData.middleName,
+		fileData.surname,
+		fileData.generation,
+	]
+		.filter((part) => part)
+		.join(' ');
+
+	let emails: MSGAddress[] = [];
+	for (let [name, email] of [
+		[fileData.email1DisplayName, fileData.email1Address],
+		[fileData.email2DisplayName, fileData.email2Address],
+		[fileData.email3DisplayName, fileData.email3Address],
+	]) {
+		if (email) emails.push({ name: name ?? '', email: email });
+	}
+
+	let phones: MSGLabeledValue[] = [
+		{ label: 'Mobile', value: fileData.mobilePhone },
+		{ label: 'Business', value: fileData.businessPhone },
+		{ label: 'Business 2', value: fileData.business2Phone },
+		{ label: 'Home', value: fileData.homePhone },
+		{ label: 'Home 2', value: fileData.home2Phone },
+		{ label: 'Primary', value: fileData.primaryPhone },
+		{ label: 'Other', value: fileData.otherPhone },
+		{ label: 'Business Fax', value: fileData.businessFax },
+	].filter((phone): phone is MSGLabeledValue => !!phone.value?.trim());
+
+	let addresses: MSGLabeledValue[] = [
+		{
+			label: 'Business',
+			value: formatPostalAddress([
+				fileData.workAddressStreet ?? fileData.businessAddressStreet,
+				fileData.workAddressCity ?? fileData.businessAddressCity,
+				fileData.workAddressState ?? fileData.businessAddressState,
+				fileData.workAddressPostalCode ?? fileData.businessAddressPostalCode,
+				fileData.workAddressCountry ?? fileData.businessAddressCountry,
+			]),
+		},
+		{
+			label: 'Home',
+			value: formatPostalAddress([
+				fileData.homeAddressStreet,
+				fileData.homeAddressCity,
+				fileData.homeAddressState,
+				fileData.homeAddressPostalCode,
+				fileData.homeAddressCountry,
+			]),
+		},
+		{
+			label: 'Other',
+			value: formatPostalAddress([
+				fileData.otherAddressStreet,
+				fileData.otherAddressCity,
+				fileData.otherAddressState,
+				fileData.otherAddressPostalCode,
+				fileData.otherAddressCountry,
+			]),
+		},
+	].filter((address) => address.value);
+
+	return {
+		type: 'contact',
+		displayName: fileData.name || fullName || fileData.fileUnder || fileData.subject || '',
+		givenName: fileData.givenName ?? '',
+		middleName: fileData.middleName ?? '',
+		surname: fileData.surname ?? '',
+		nickname: fileData.nickname ?? '',
+		company: fileData.companyName ?? '',
+		jobTitle: fileData.jobTitle ?? '',
+		department: fileData.departmentName ?? '',
+		website: fileData.businessHomePage ?? '',
+		birthday: getDateOnlyTime(fileData.birthday),
+		emails: emails,
+		phones: phones,
+		addresses: addresses,
+	};
+};
+
+const getTaskItem = (params: { fileData: Ext_MSGReader_FileData }): MSGTaskItem => {
+	const { fileData } = params;
+	let status = TASK_STATUSES[fileData.taskStatus ?? 0] ?? 'not-started';
+	if (fileData.taskComplete) status = 'completed';
+	let percentComplete = Math.round((fileData.percentComplete ?? (status === 'completed' ? 1 : 0)) * 100);
+	return {
+		type: 'task',
+		status: status,
+		percentComplete: Math.min(Math.max(percentComplete, 0), 100),
+		startTime: getDateOnlyTime(fileData.taskStartDate),
+		dueTime: getDateOnlyTime(fileData.taskDueDate),
+		completedTime: getDateOnlyTime(fileData.taskDateCompleted),
+		owner: fileData.taskOwner ?? '',
+		importance: IMPORTANCES[fileData.importance ?? 1] ?? 'normal',
+	};
+};
+
+const getStickyNoteItem = (params: { fileData: Ext_MSGReader_FileData }): MSGStickyNoteItem => {
+	const { fileData } = params;
+	let modified = fileData.lastModificationTime ?? fileData.creationTime;
+	return {
+		type: 'note',
+		color: NOTE_COLORS[fileData.noteColor ?? 3] ?? 'yellow',
+		modifiedTime: modified ? modified.valueOf() : null,
+	};
+};
+
+/**
+ * Joins the street, city, state, postal code and country into a multiline address like
+ * "1 Main St\nSpringfield, IL 62701\nUSA"
+ * @param parts
+ * @returns
+ */
+const formatPostalAddress = (parts: (string | undefined)[]): string => {
+	let [street, city, state, postalCode, country] = parts.map((part) => (part ?? '').trim());
+	let cityLine = [city, [state, postalCode].filter((p) => p).join(' ')].filter((p) => p).join(', ');
+	return [street, cityLine, country].filter((line) => line).join('\n');
+};
+
+/**
+ * Birthdays and task dates are calendar days, which are stored either as UTC midnight or as local midnight
+ * converted to UTC. The nearest UTC day is returned as local midnight, so the day doesn't shift
+ * @param date
+ * @returns
+ */
+const getDateOnlyTime = (date: Date | undefined): number | null => {
+	if (!date || isNaN(date.valueOf())) return null;
+	let day = new Date(date.valueOf() + 12 * 60 * 60 * 1000);
+	return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()).getTime();
+};
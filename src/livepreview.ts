@@ -0,0 +1,131 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, editorInfoField, editorLivePreviewField } from 'obsidian';
+import { EditorState, Prec, Range } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView, ViewPlugin, ViewUpdate, WidgetType } from '@codemirror/view';
+import { MSGEmbedOptions } from 'types';
+import { getFileExtension, parseEmbedOptions } from 'utils';
+import { renderMsgFileToElement, unmountMsgFileFromElement } from 'view';
+
+/* ------------ LIVE PREVIEW EMBEDS ------------ */
+
+// --> Matches the wikilink embeds like ![[mail.msg#body|compact]]
+const EMBED_REGEX = /!\[\[([^\[\]]+?)\]\]/g;
+
+// --> Renders the email embed with the same components used within the Reading view
+class MsgEmbedWidget extends WidgetType {
+	plugin: MsgHandlerPlugin;
+	msgFile: TFile;
+	options: MSGEmbedOptions;
+	// Modification time of the file while the widget is created, so that the widget is rendered again once
+	// the email file changes
+	mtime: number;
+
+	constructor(plugin: MsgHandlerPlugin, msgFile: TFile, options: MSGEmbedOptions) {
+		super();
+		this.plugin = plugin;
+		this.msgFile = msgFile;
+		this.options = options;
+		this.mtime = msgFile.stat.mtime;
+	}
+
+	eq(other: MsgEmbedWidget): boolean {
+		return (
+			other.msgFile.path === this.msgFile.path &&
+			other.mtime === this.mtime &&
+			other.options.section === this.options.section &&
+			other.options.compact === this.options.compact
+		);
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		let wrapperDiv = createDiv({
+			cls: ['oz-msg-handler-preview-render', 'oz-msg-handler-live-preview-render'],
+		});
+		if (this.options.compact) wrapperDiv.addClass('oz-msg-handler-preview-render-compact');
+		renderMsgFileToElement({
+			msgFile: this.msgFile,
+			targetEl: wrapperDiv,
+			plugin: this.plugin,
+			embedOptions: this.options,
+		});
+		return wrapperDiv;
+	}
+
+	destroy(dom: HTMLElement): void {
+		unmountMsgFileFromElement(dom);
+	}
+}
+
+/**
+ * Creates the widget decorations for the email embeds within the visible part of the editor. Embeds touched
+ * by the selection are kept as they are, so that the link can be edited
+ * @param params
+ * @returns
+ */
+const getMsgEmbedDecorations = (params: { plugin: MsgHandlerPlugin; view: EditorView }): DecorationSet => {
+	const { plugin, view } = params;
+	const { state } = view;
+	if (!state.field(editorLivePreviewField)) return Decoration.none;
+
+	let sourcePath = state.field(editorInfoField)?.file?.path ?? '';
+	let decorations: Range<Decoration>[] = [];
+	for (let { from, to } of view.visibleRanges) {
+		let text = state.doc.sliceString(from, to);
+		let match;
+		EMBED_REGEX.lastIndex = 0;
+		while ((match = EMBED_REGEX.exec(text))) {
+			let embedFrom = from + match.index;
+			let embedTo = embedFrom + match[0].length;
+			if (isTouchedBySelection({ state: state, from: embedFrom, to: embedTo })) continue;
+
+			let [src, alt] = match[1].split('|');
+			let { linkpath, options } = parseEmbedOptions({ src: src, alt: alt ?? null });
+			if (!plugin.acceptedExtensions.contains(getFileExtension(linkpath))) continue;
+			let msgFile = plugin.app.metadataCache.getFirstLinkpathDest(linkpath, sourcePath);
+			if (!msgFile) continue;
+
+			let widget = new MsgEmbedWidget(plugin, msgFile, options);
+			decorations.push(Decoration.replace({ widget: widget }).range(embedFrom, embedTo));
+		}
+	}
+	return Decoration.set(decorations, true);
+};
+
+const isTouchedBySelection = (params: { state: EditorState; from: number; to: number }): boolean => {
+	const { state, from, to } = params;
+	return state.selection.ranges.some((range) => range.from <= to && range.to >= from);
+};
+
+/**
+ * Editor extension rendering the email embeds in Live Preview. Decorations are created again once the document,
+ * viewport or selection changes and when the editor is reconfigured (workspace.updateOptions) after the
+ * email files are modified or deleted
+ * @param plugin
+ * @returns
+ */
+export const getMsgEmbedLivePreviewExtension = (plugin: MsgHandlerPlugin) => {
+	const viewPlugin = ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = getMsgEmbedDecorations({ plugin: plugin, view: view });
+			}
+
+			update(update: ViewUpdate) {
+				if (
+					update.docChanged ||
+					update.viewportChanged ||
+					update.selectionSet ||
+					update.transactions.some((tr) => tr.reconfigured) ||
+					update.state.field(editorLivePreviewField) !== update.startState.field(editorLivePreviewField)
+				) {
+					this.decorations = getMsgEmbedDecorations({ plugin: plugin, view: update.view });
+				}
+			}
+		},
+		{ decorations: (value) => value.decorations }
+	);
+	// Precedence is raised so that the widget replaces the default embed of Obsidian for unsupported files
+	return Prec.high(viewPlugin);
+};
@@ -1,32 +1,77 @@
-import { Plugin, TFile, WorkspaceLeaf, addIcon } from 'obsidian';
+import {
+	Plugin,
+	TFile,
+	TAbstractFile,
+	WorkspaceLeaf,
+	addIcon,
+	Notice,
+	Editor,
+	MarkdownView,
+	MarkdownFileInfo,
+} from 'obsidian';
 import {
 	RENDER_VIEW_TYPE,
 	MsgHandlerView,
+	MBOX_VIEW_TYPE,
+	MboxHandlerView,
+	ATTACHMENT_VIEW_TYPE,
+	MsgHandlerAttachmentView,
 	MsgHandlerSearchView,
 	SEARCH_VIEW_TYPE,
+	MsgHandlerContactsView,
+	CONTACTS_VIEW_TYPE,
 	ICON,
 	renderMsgFileToElement,
 } from 'view';
-import { getMsgContent } from 'utils';
+import { getFileExtension, getMsgContent, openFile, parseEmbedOptions } from 'utils';
+import { createMeetingNote, createNoteFromMessage } from 'notes';
+import { createMailtoUri, getComposedMessage, saveDraftEml } from 'compose';
+import { createOrUpdateContactNote } from 'contacts';
+import { saveAllAttachments } from 'attachments';
+import { getEmailFilesFromDataTransfer, importEmailFiles } from 'import';
 import { MSG_HANDLER_ENVELOPE_ICON } from 'icons';
 import { MSGHandlerPluginSettings, MSGHandlerPluginSettingsTab, DEFAULT_SETTINGS } from 'settings';
+import { MsgHandlerIndexQueue } from 'indexer';
+import { MsgHandlerAPI } from 'api';
+import { getMsgEmbedLivePreviewExtension } from 'livepreview';
+import {
+	ComposeAction,
+	MSGAttachment,
+	MSGCalendarEvent,
+	MSGContact,
+	MSGDataIndexed,
+	MSGEmbedOptions,
+	MSGRenderData,
+} from 'types';
 import {
-	createDBMessageContent,
+	clearDBMessageContents,
 	deleteDBMessageContentById,
+	deleteDBSavedAttachmentsByPath,
 	getDBMessageContentsByPath,
+	isDBMessageContentOutdated,
 	syncDatabaseWithVaultFiles,
+	updateDBSavedAttachmentsPath,
 	updateFilePathOfAllRecords,
 } from 'database';
 
 export default class MsgHandlerPlugin extends Plugin {
-	acceptedExtensions: string[] = ['msg', 'eml'];
+	acceptedExtensions: string[] = ['msg', 'eml', 'oft'];
+	mboxExtensions: string[] = ['mbox'];
 	settings: MSGHandlerPluginSettings;
 	ribbonIconEl: HTMLElement | undefined = undefined;
+	indexQueue: MsgHandlerIndexQueue;
+	// @API - Public API for other plugins and scripts, see MsgHandlerAPI
+	api: MsgHandlerAPI;
+	// Attachments opened in their own tab, which are not saved to the vault
+	temporaryAttachments: Map<string, MSGAttachment> = new Map();
 
 	async onload() {
 		// --> Add Icons
 		addIcon(ICON, MSG_HANDLER_ENVELOPE_ICON);
 
+		// --> Create Public API
+		this.api = new MsgHandlerAPI(this);
+
 		// --> Load Settings
 		this.addSettingTab(new MSGHandlerPluginSettingsTab(this.app, this));
 		await this.loadSettings();
@@ -36,48 +81,68 @@ export default class MsgHandlerPlugin extends Plugin {
 			return new MsgHandlerView(leaf, this);
 		});
 
+		// --> Register Plugin Mbox View
+		this.registerView(MBOX_VIEW_TYPE, (leaf: WorkspaceLeaf) => {
+			return new MboxHandlerView(leaf, this);
+		});
+
+		// --> Register Plugin Attachment View
+		this.registerView(ATTACHMENT_VIEW_TYPE, (leaf: WorkspaceLeaf) => {
+			return new MsgHandlerAttachmentView(leaf, this);
+		});
+
 		// --> Register Plugin Search View
 		this.registerView(SEARCH_VIEW_TYPE, (leaf) => {
 			return new MsgHandlerSearchView(leaf, this);
 		});
 
+		// --> Register Plugin Contacts View
+		this.registerView(CONTACTS_VIEW_TYPE, (leaf) => {
+			return new MsgHandlerContactsView(leaf, this);
+		});
+
 		// --> Register Extension for 'msg' file rendering
 		this.registerMsgExtensionView();
 
+		// --> Background indexing queue with the progress in status bar
+		this.indexQueue = new MsgHandlerIndexQueue(this, this.addStatusBarItem());
+
 		// --> During initial load sync vault msg files with DB and open Search
 		this.app.workspace.onLayoutReady(() => {
-			syncDatabaseWithVaultFiles({ plugin: this }).then(() => {
-				if (this.settings.logEnabled) console.log('Vault DB Sync is completed for MSG Files');
+			syncDatabaseWithVaultFiles({ plugin: this }).then((filesToIndex) => {
+				this.indexQueue.enqueue(filesToIndex);
 			});
 			this.openMsgHandlerSearchLeaf({ showAfterAttach: false });
 		});
 
 		// --> Preview Render
 		this.registerMarkdownPostProcessor((el, ctx) => {
-			let msgElement =
-				el.querySelector('.internal-embed[src$=".eml"]') ||
-				el.querySelector('.internal-embed[src$=".msg"]');
-			if (msgElement) {
-				let src = msgElement.getAttribute('src');
-				if (src) {
-					let msgFile = this.app.metadataCache.getFirstLinkpathDest(src, ctx.sourcePath);
-					if (msgFile) {
-						// Remove the default msg render from preview
-						let parentMsgElement = msgElement.parentElement;
-						msgElement.remove();
-						// Create new div to render msg
-						let wrapperDiv = parentMsgElement.createEl('div');
-						wrapperDiv.addClass('oz-msg-handler-preview-render');
-						// Render to the new div
-						this.renderMSG({
-							msgFile: msgFile as TFile,
-							targetEl: wrapperDiv,
-						});
-					}
-				}
-			}
+			el.querySelectorAll('.internal-embed[src]').forEach((msgElement) => {
+				let { linkpath, options } = parseEmbedOptions({
+					src: msgElement.getAttribute('src'),
+					alt: msgElement.getAttribute('alt'),
+				});
+				if (!this.acceptedExtensions.contains(getFileExtension(linkpath))) return;
+				let msgFile = this.app.metadataCache.getFirstLinkpathDest(linkpath, ctx.sourcePath);
+				if (!msgFile) return;
+				// Replace the default msg render from preview with a new div to render msg
+				let wrapperDiv = createDiv({ cls: 'oz-msg-handler-preview-render' });
+				if (options.compact) wrapperDiv.addClass('oz-msg-handler-preview-render-compact');
+				msgElement.replaceWith(wrapperDiv);
+				// Render to the new div
+				this.renderMSG({
+					msgFile: msgFile,
+					targetEl: wrapperDiv,
+					embedOptions: options,
+				});
+			});
 		});
 
+		// --> Live Preview Render
+		this.registerEditorExtension(getMsgEmbedLivePreviewExtension(this));
+		this.registerEvent(this.app.vault.on('modify', this.refreshLivePreviewEmbeds));
+		this.registerEvent(this.app.vault.on('delete', this.refreshLivePreviewEmbeds));
+
 		// --> Add Commands
 		this.addCommand({
 			id: 'reveal-msg-handler-search-leaf',
@@ -87,8 +152,105 @@ export default class MsgHandlerPlugin extends Plugin {
 			},
 		});
 
-		// --> Add Event listeners for vault file changes (create, delete, rename)
+		this.addCommand({
+			id: 'reveal-msg-handler-contacts-leaf',
+			name: 'Reveal Contacts Leaf',
+			callback: () => {
+				this.openMsgHandlerContactsLeaf();
+			},
+		});
+
+		this.addCommand({
+			id: 'pause-indexing',
+			name: 'Pause Indexing',
+			checkCallback: (checking: boolean) => {
+				if (this.indexQueue.isActive && !this.indexQueue.paused) {
+					if (!checking) this.indexQueue.pause();
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: 'resume-indexing',
+			name: 'Resume Indexing',
+			checkCallback: (checking: boolean) => {
+				if (this.indexQueue.paused) {
+					if (!checking) this.indexQueue.resume();
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: 'rebuild-index',
+			name: 'Rebuild Index',
+			callback: () => {
+				this.rebuildIndex();
+			},
+		});
+
+		this.addCommand({
+			id: 'create-note-from-email',
+			name: 'Create Note from Email',
+			checkCallback: (checking: boolean) => {
+				let activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && this.acceptedExtensions.contains(activeFile.extension)) {
+					if (!checking) this.createNoteFromEmail({ msgFile: activeFile });
+					return true;
+				}
+				return false;
+			},
+		});
+
+		this.addCommand({
+			id: 'save-all-attachments',
+			name: 'Save All Attachments of Email',
+			checkCallback: (checking: boolean) => {
+				let activeFile = this.app.workspace.getActiveFile();
+				if (activeFile && this.acceptedExtensions.contains(activeFile.extension)) {
+					if (!checking) {
+						getMsgContent({ plugin: this, msgFile: activeFile }).then((msgContent) =>
+							this.saveAllAttachments({ msgContent: msgContent, fileName: activeFile.basename })
+						);
+					}
+					return true;
+				}
+				return false;
+			},
+		});
+
+		// --> Add File Menu Items
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (file instanceof TFile && this.acceptedExtensions.contains(file.extension)) {
+					menu.addItem((item) => {
+						item.setTitle('Create Note from Email')
+							.setIcon('file-plus')
+							.onClick(() => this.createNoteFromEmail({ msgFile: file }));
+					});
+				}
+			})
+		);
+
+		// --> Import emails dropped or pasted into the editor and dropped onto the file explorer
+		this.registerEvent(
+			this.app.workspace.on('editor-drop', (evt, editor, info) =>
+				this.handleEditorEmailTransfer({ evt: evt, dataTransfer: evt.dataTransfer, editor, info })
+			)
+		);
+		this.registerEvent(
+			this.app.workspace.on('editor-paste', (evt, editor, info) =>
+				this.handleEditorEmailTransfer({ evt: evt, dataTransfer: evt.clipboardData, editor, info })
+			)
+		);
+		this.registerDomEvent(document, 'drop', this.handleFileExplorerDrop, { capture: true });
+
+		// --> Add Event listeners for vault file changes (create, modify, delete, rename)
 		this.app.vault.on('create', this.handleFileCreate);
+		this.app.vault.on('modify', this.handleFileModify);
 		this.app.vault.on('delete', this.handleFileDelete);
 		this.app.vault.on('rename', this.handleFileRename);
 
@@ -101,17 +263,31 @@ export default class MsgHandlerPlugin extends Plugin {
 	onunload() {
 		// --> Delete event listeners onunload
 		this.app.vault.off('create', this.handleFileCreate);
+		this.app.vault.off('modify', this.handleFileModify);
 		this.app.vault.off('delete', this.handleFileDelete);
 		this.app.vault.off('rename', this.handleFileRename);
+		this.indexQueue.destroy();
+		this.temporaryAttachments.clear();
 	}
 
+	/**
+	 * Reconfigures the editors, so that the Live Preview embeds of the changed email file are rendered again
+	 * @param file
+	 */
+	refreshLivePreviewEmbeds = (file: TAbstractFile) => {
+		if (file instanceof TFile && this.acceptedExtensions.contains(file.extension)) {
+			this.app.workspace.updateOptions();
+		}
+	};
+
 	// @API - SHARED WITH OZAN'S IMAGE IN EDITOR - DO NOT CHANGE OR SYNC BEFORE
-	renderMSG = async (params: { msgFile: TFile; targetEl: HTMLElement }) => {
-		const { msgFile, targetEl } = params;
+	renderMSG = async (params: { msgFile: TFile; targetEl: HTMLElement; embedOptions?: MSGEmbedOptions }) => {
+		const { msgFile, targetEl, embedOptions } = params;
 		await renderMsgFileToElement({
 			msgFile: msgFile,
 			targetEl: targetEl,
 			plugin: this,
+			embedOptions: embedOptions,
 		});
 	};
 
@@ -134,6 +310,17 @@ export default class MsgHandlerPlugin extends Plugin {
 		}
 	};
 
+	openMsgHandlerContactsLeaf = async () => {
+		let leafs = this.app.workspace.getLeavesOfType(CONTACTS_VIEW_TYPE);
+		if (leafs.length === 0) {
+			let leaf = this.app.workspace.getRightLeaf(false);
+			await leaf.setViewState({ type: CONTACTS_VIEW_TYPE });
+			this.app.workspace.revealLeaf(leaf);
+		} else {
+			this.app.workspace.revealLeaf(leafs[0]);
+		}
+	};
+
 	detachMsgHandlerSearchLeaf = () => {
 		let leafs = this.app.workspace.getLeavesOfType(SEARCH_VIEW_TYPE);
 		for (let leaf of leafs) {
@@ -142,22 +329,176 @@ export default class MsgHandlerPlugin extends Plugin {
 		}
 	};
 
+	rebuildIndex = async () => {
+		this.indexQueue.clear();
+		await clearDBMessageContents();
+		this.api.trigger('index-cleared');
+		let msgFiles = this.app.vault.getFiles().filter((f) => this.isIndexedFile(f));
+		this.indexQueue.resume();
+		this.indexQueue.enqueue(msgFiles);
+		new Notice(`Index is being rebuilt for ${msgFiles.length} emails`);
+	};
+
+	openAttachmentInNewTab = async (params: { attachment: MSGAttachment }) => {
+		let attachmentId = `${Date.now()}-${this.temporaryAttachments.size}`;
+		this.temporaryAttachments.set(attachmentId, params.attachment);
+		let leaf = this.app.workspace.getLeaf(true);
+		await leaf.setViewState({
+			type: ATTACHMENT_VIEW_TYPE,
+			active: true,
+			state: { attachmentId: attachmentId },
+		});
+		this.app.workspace.revealLeaf(leaf);
+	};
+
+	saveAllAttachments = async (params: { msgContent: MSGRenderData; fileName: string }) => {
+		try {
+			let result = await saveAllAttachments({ plugin: this, ...params });
+			let message = `${result.saved.length} attachments saved`;
+			if (result.duplicates.length > 0) message += `, ${result.duplicates.length} already in vault`;
+			if (result.skipped.length > 0) message += `, ${result.skipped.length} skipped (existing files)`;
+			new Notice(message);
+		} catch (err) {
+			new Notice('Attachments could not be saved');
+			if (this.settings.logEnabled) console.log('Saving attachments failed', err);
+		}
+	};
+
+	importEmails = async (params: { files: File[] }): Promise<TFile[]> => {
+		try {
+			let importedFiles = await importEmailFiles({ plugin: this, files: params.files });
+			new Notice(
+				`${importedFiles.length} emails imported to ${this.settings.importFolderPath || 'vault root'}`
+			);
+			return importedFiles;
+		} catch (err) {
+			new Notice('Emails could not be imported');
+			if (this.settings.logEnabled) console.log('Email import failed', err);
+			return [];
+		}
+	};
+
+	createNoteFromEmail = async (params: { msgFile: TFile }) => {
+		try {
+			let noteFile = await createNoteFromMessage({ plugin: this, msgFile: params.msgFile });
+			openFile({ file: noteFile, plugin: this, newLeaf: false });
+		} catch (err) {
+			new Notice('Note could not be created from ' + params.msgFile.name);
+			if (this.settings.logEnabled) console.log('Note creation failed', err);
+		}
+	};
+
+	createContactNote = async (params: { contact: MSGContact; messages: MSGDataIndexed[] }) => {
+		try {
+			let noteFile = await createOrUpdateContactNote({ plugin: this, ...params });
+			openFile({ file: noteFile, plugin: this, newLeaf: false });
+		} catch (err) {
+			new Notice('Contact note could not be created for ' + params.contact.email);
+			if (this.settings.logEnabled) console.log('Contact note creation failed', err);
+		}
+	};
+
+	createMeetingNote = async (params: { event: MSGCalendarEvent; msgFile?: TFile }) => {
+		try {
+			let noteFile = await createMeetingNote({ plugin: this, ...params });
+			openFile({ file: noteFile, plugin: this, newLeaf: false });
+		} catch (err) {
+			new Notice('Meeting note could not be created for ' + (params.event.title || 'the event'));
+			if (this.settings.logEnabled) console.log('Meeting note creation failed', err);
+		}
+	};
+
+	composeMessage = async (params: { msgContent: MSGRenderData; action: ComposeAction }) => {
+		const { msgContent, action } = params;
+		try {
+			if (this.settings.composeMode === 'draft') {
+				let draftFile = await saveDraftEml({ plugin: this, ...params });
+				new Notice(`Draft is saved to ${draftFile.path}. Open it in your mail client to send it`);
+			} else {
+				let message = getComposedMessage({
+					msgContent: msgContent,
+					action: action,
+					ownAddresses: this.settings.ownEmailAddresses,
+				});
+				window.open(createMailtoUri(message));
+			}
+		} catch (err) {
+			new Notice('Message could not be composed for ' + (msgContent.subject || 'the email'));
+			if (this.settings.logEnabled) console.log('Message composition failed', err);
+		}
+	};
+
 	registerMsgExtensionView = () => {
 		try {
 			this.registerExtensions(this.acceptedExtensions, RENDER_VIEW_TYPE);
 		} catch (err) {
 			if (this.settings.logEnabled) console.log('Msg file extension renderer was already registered');
 		}
+		try {
+			this.registerExtensions(this.mboxExtensions, MBOX_VIEW_TYPE);
+		} catch (err) {
+			if (this.settings.logEnabled) console.log('Mbox file extension renderer was already registered');
+		}
+	};
+
+	/**
+	 * Checks if the file is indexed within the database (msg, eml, oft and mbox files)
+	 * @param file
+	 * @returns
+	 */
+	isIndexedFile = (file: TFile) => {
+		return this.acceptedExtensions.contains(file.extension) || this.mboxExtensions.contains(file.extension);
 	};
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Defaults are copied deeply, so editing the default note templates doesn't change the defaults
+		this.settings = Object.assign({}, structuredClone(DEFAULT_SETTINGS), await this.loadData());
 	}
 
 	async saveSettings() {
 		await this.saveData(this.settings);
 	}
 
+	/* --------------- EVENT HANDLERS FOR EMAIL IMPORT -------------- */
+
+	/**
+	 * Imports the emails dropped or pasted into the editor and inserts their embed links at the cursor
+	 * @param params
+	 */
+	handleEditorEmailTransfer = (params: {
+		evt: DragEvent | ClipboardEvent;
+		dataTransfer: DataTransfer | null;
+		editor: Editor;
+		info: MarkdownView | MarkdownFileInfo;
+	}) => {
+		const { evt, dataTransfer, editor, info } = params;
+		if (evt.defaultPrevented) return;
+		let files = getEmailFilesFromDataTransfer({ plugin: this, dataTransfer: dataTransfer });
+		if (files.length === 0) return;
+		evt.preventDefault();
+		this.importEmails({ files: files }).then((importedFiles) => {
+			let sourcePath = info.file ? info.file.path : '';
+			let links = importedFiles.map(
+				(file) => '!' + this.app.fileManager.generateMarkdownLink(file, sourcePath)
+			);
+			if (links.length > 0) editor.replaceSelection(links.join('\n'));
+		});
+	};
+
+	/**
+	 * Imports the emails dropped onto the file explorer instead of copying them as they are
+	 * @param evt
+	 */
+	handleFileExplorerDrop = (evt: DragEvent) => {
+		let target = evt.target as HTMLElement;
+		if (!target || !target.closest || !target.closest('.nav-files-container')) return;
+		let files = getEmailFilesFromDataTransfer({ plugin: this, dataTransfer: evt.dataTransfer });
+		if (files.length === 0) return;
+		evt.preventDefault();
+		evt.stopPropagation();
+		this.importEmails({ files: files });
+	};
+
 	/* --------------- EVENT HANDLERS FOR VAULT FILE CHANGES -------------- */
 
 	/**
@@ -165,16 +506,39 @@ export default class MsgHandlerPlugin extends Plugin {
 	 * @param file
 	 */
 	handleFileCreate = async (file: TFile) => {
-		if (this.acceptedExtensions.contains(file.extension)) {
+		if (!this.isIndexedFile(file)) return;
+		try {
 			let dbMsgContents = await getDBMessageContentsByPath({ filePath: file.path });
-			if (dbMsgContents.length === 0) {
-				let msgContent = await getMsgContent({ plugin: this, msgFile: file });
-				createDBMessageContent({
-					msgContent: msgContent,
-					file: file as TFile,
-				});
-				if (this.settings.logEnabled) console.log(`DB Index Record is created for ${file.path}`);
-			}
+			if (dbMsgContents.length > 0) return;
+			// New and imported files are indexed through the queue like the modified ones, so a file is never
+			// indexed twice at once and bulk creates are displayed with their progress
+			this.indexQueue.enqueue([file]);
+			if (this.settings.logEnabled) console.log(`DB Index Record creation is queued for ${file.path}`);
+		} catch (err) {
+			if (this.settings.logEnabled)
+				console.log(`DB Index Record could not be created for ${file.path}`, err);
+		}
+	};
+
+	/**
+	 * This function is created to handle "modify" event for vault
+	 * @param file
+	 */
+	handleFileModify = async (file: TFile) => {
+		if (!this.isIndexedFile(file)) return;
+		try {
+			let dbMsgContents = await getDBMessageContentsByPath({ filePath: file.path });
+			let outdatedDbMsgContents = dbMsgContents.filter((dbMsgContent) =>
+				isDBMessageContentOutdated({ dbMsgContent: dbMsgContent, file: file })
+			);
+			if (dbMsgContents.length > 0 && outdatedDbMsgContents.length === 0) return;
+			// Files are parsed within the index queue, which reports the files that can't be parsed (e.g. while
+			// a sync client is still writing them) instead of failing the modify event
+			this.indexQueue.enqueue([file]);
+			if (this.settings.logEnabled) console.log(`DB Index Record update is queued for ${file.path}`);
+		} catch (err) {
+			if (this.settings.logEnabled)
+				console.log(`DB Index Record could not be updated for ${file.path}`, err);
 		}
 	};
 
@@ -183,13 +547,16 @@ export default class MsgHandlerPlugin extends Plugin {
 	 * @param file
 	 */
 	handleFileDelete = async (file: TFile) => {
-		if (this.acceptedExtensions.contains(file.extension)) {
+		// Content hashes of the saved attachments shouldn't point to the deleted file anymore
+		await deleteDBSavedAttachmentsByPath({ filePath: file.path });
+		if (this.isIndexedFile(file)) {
 			let dbMsgContents = await getDBMessageContentsByPath({ filePath: file.path });
 			if (dbMsgContents.length > 0) {
 				for (let dbMsgContent of dbMsgContents) {
 					await deleteDBMessageContentById({ id: dbMsgContent.id });
 					if (this.settings.logEnabled) console.log(`DB Index Record is deleted for ${file.path}`);
 				}
+				this.api.trigger('message-deleted', file.path);
 			}
 		}
 	};
@@ -201,6 +568,8 @@ export default class MsgHandlerPlugin extends Plugin {
 	 */
 	handleFileRename = async (file: TFile, oldPath: string) => {
 		await updateFilePathOfAllRecords({ oldValue: oldPath, newValue: file.path });
+		await updateDBSavedAttachmentsPath({ oldValue: oldPath, newValue: file.path });
+		if (this.isIndexedFile(file)) this.api.trigger('message-renamed', file.path, oldPath);
 		if (this.settings.logEnabled) console.log(`DB Index Record is updated for ${file.path}`);
 	};
 }
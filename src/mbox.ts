@@ -0,0 +1,65 @@
+import MsgHandlerPlugin from 'main';
+import { TFile } from 'obsidian';
+import { MboxMessage } from 'types';
+import { getEMLRenderData, parseEmlBinary } from 'utils';
+import { bytesToBinaryString } from 'charset';
+
+/* ------------ MBOX ARCHIVES ------------ */
+
+interface MboxRawMessage {
+	offset: number;
+	emlText: string;
+}
+
+/**
+ * Reads the mbox file and parses all messages within it. Messages that can't be parsed are skipped
+ * @param params
+ * @returns
+ */
+export const getMboxMessages = async (params: {
+	plugin: MsgHandlerPlugin;
+	mboxFile: TFile;
+}): Promise<MboxMessage[]> => {
+	const { plugin, mboxFile } = params;
+	// Messages can use different charsets, so they are decoded one by one from the raw bytes
+	let mboxBuffer = await plugin.app.vault.readBinary(mboxFile);
+	let mboxText = bytesToBinaryString(new Uint8Array(mboxBuffer));
+	let mboxMessages: MboxMessage[] = [];
+	for (let rawMessage of splitMboxMessages(mboxText)) {
+		try {
+			let readEmlJson = await parseEmlBinary({ binaryText: rawMessage.emlText });
+			mboxMessages.push({ offset: rawMessage.offset, msgContent: getEMLRenderData({ readEmlJson }) });
+		} catch (err) {
+			if (plugin.settings.logEnabled) {
+				console.log(`Message at offset ${rawMessage.offset} could not be parsed in ${mboxFile.path}`, err);
+			}
+		}
+	}
+	return mboxMessages;
+};
+
+/**
+ * Splits the mbox content into raw messages. Each message starts with a "From " separator line at the
+ * beginning of the file or after an empty line. The offset of the separator line identifies the message
+ * within the file (byte offset). Escaped ">From " lines of the body are restored (mboxrd)
+ * @param mboxText
+ * @returns
+ */
+const splitMboxMessages = (mboxText: string): MboxRawMessage[] => {
+	let separatorRegex = /(?:^|\r?\n\r?\n)(From [^\r\n]*)\r?\n/g;
+	let separators: { offset: number; contentStart: number }[] = [];
+	let match;
+	while ((match = separatorRegex.exec(mboxText))) {
+		separators.push({
+			offset: match.index + match[0].indexOf(match[1]),
+			contentStart: match.index + match[0].length,
+		});
+	}
+	return separators.map((separator, index) => {
+		let contentEnd = index + 1 < separators.length ? separators[index + 1].offset : mboxText.length;
+		return {
+			offset: separator.offset,
+			emlText: mboxText.substring(separator.contentStart, contentEnd).replace(/^>(>*From )/gm, '$1'),
+		};
+	});
+};
@@ -0,0 +1,235 @@
+import { decodeEncodedWords } from 'address';
+import { binaryStringToBytes, decodeBinaryString, decodeBytes } from 'charset';
+
+/* ------------ MIME PARTS ------------ */
+
+interface MimePart {
+	headers: { [name: string]: string };
+	// Raw body of the part, one character per byte
+	body: string;
+}
+
+interface MimeHeaderValue {
+	value: string;
+	params: { [name: string]: string };
+}
+
+export interface MimeContent {
+	text: string | null;
+	html: string | null;
+	// First text/calendar part (meeting invitation), it is also listed within the attachments
+	calendar: string | null;
+	attachmentNames: string[];
+}
+
+/**
+ * Walks through the MIME parts of the raw EML content (read with one character per byte) and decodes the text
+ * and HTML bodies with the charset of their own part. Parts are classified the same way as eml-parse-js does,
+ * so the attachment names are returned in the order of its attachments
+ * @param binaryText
+ * @returns
+ */
+export const getMimeContent = (binaryText: string): MimeContent => {
+	let content: MimeContent = { text: null, html: null, calendar: null, attachmentNames: [] };
+	for (let part of getMimeLeafParts(parseMimePart(binaryText))) {
+		let contentType = parseHeaderValue(part.headers['content-type'] ?? '');
+		let isBody = !part.headers['content-disposition'];
+		if (contentType.value === 'text/calendar' && content.calendar === null) {
+			let bytes = decodeTransferEncoding({
+				body: part.body,
+				encoding: part.headers['content-transfer-encoding'],
+			});
+			content.calendar = decodeBytes(bytes, contentType.params['charset']);
+		}
+		if (isBody && (contentType.value === 'text/html' || contentType.value === 'text/plain')) {
+			let bytes = decodeTransferEncoding({
+				body: part.body,
+				encoding: part.headers['content-transfer-encoding'],
+			});
+			let text = decodeBytes(bytes, contentType.params['charset']);
+			if (contentType.value === 'text/html') content.html = (content.html ?? '') + text;
+			else content.text = (content.text ?? '') + text;
+		} else {
+			content.attachmentNames.push(getMimePartFileName(part));
+		}
+	}
+	return content;
+};
+
+/**
+ * Splits the raw part into its unfolded headers (with lowercase names) and its body
+ * @param binaryText
+ * @returns
+ */
+const parseMimePart = (binaryText: string): MimePart => {
+	let headerEnd = binaryText.search(/\r?\n\r?\n/);
+	let headerText = headerEnd === -1 ? binaryText : binaryText.substring(0, headerEnd);
+	let body = headerEnd === -1 ? '' : binaryText.substring(headerEnd).replace(/^\r?\n\r?\n/, '');
+	let headers: { [name: string]: string } = {};
+	for (let line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+		let separator = line.indexOf(':');
+		if (separator <= 0) continue;
+		let name = line.substring(0, separator).trim().toLowerCase();
+		// First occurrence is used like eml-parse-js does for the content headers
+		if (!(name in headers)) headers[name] = line.substring(separator + 1).trim();
+	}
+	return { headers: headers, body: body };
+};
+
+/**
+ * Returns the leaf parts of the part in their order. Multipart bodies are split by their boundary, attached
+ * messages (message/rfc822) are kept as single parts
+ * @param part
+ * @returns
+ */
+const getMimeLeafParts = (part: MimePart): MimePart[] => {
+	let contentType = parseHeaderValue(part.headers['content-type'] ?? '');
+	let boundary = contentType.params['boundary'];
+	if (!contentType.value.startsWith('multipart/') || !boundary) return [part];
+
+	let leafParts: MimePart[] = [];
+	let delimiter = '--' + boundary;
+	let lines = part.body.split(/\r?\n/);
+	let currentLines: string[] | null = null;
+	for (let line of lines) {
+		let trimmedLine = line.trimEnd();
+		if (trimmedLine === delimiter || trimmedLine === delimiter + '--') {
+			if (currentLines) leafParts.push(...getMimeLeafParts(parseMimePart(currentLines.join('\r\n'))));
+			currentLines = trimmedLine === delimiter ? [] : null;
+			if (trimmedLine !== delimiter) break;
+		} else if (currentLines) {
+			currentLines.push(line);
+		}
+	}
+	// Missing closing delimiter, the last part ends with the body
+	if (currentLines) leafParts.push(...getMimeLeafParts(parseMimePart(currentLines.join('\r\n'))));
+	return leafParts;
+};
+
+/* ------------ HEADERS ------------ */
+
+/**
+ * Parses the structured header like Content-Type or Content-Disposition into its lowercase value and
+ * parameters. RFC 2231 parameters (name*=utf-8''%E2%82%AC and name*0/name*1 continuations) are decoded
+ * @param headerValue
+ * @returns
+ */
+const parseHeaderValue = (headerValue: string): MimeHeaderValue => {
+	let segments = splitHeaderParams(headerValue);
+	let result: MimeHeaderValue = { value: (segments.shift() ?? '').trim().toLowerCase(), params: {} };
+	let continuations: { [name: string]: { index: number; value: string; encoded: boolean }[] } = {};
+
+	for (let segment of segments) {
+		let separator = segment.indexOf('=');
+		if (separator <= 0) continue;
+		let key = segment.substring(0, separator).trim().toLowerCase();
+		let value = unquoteParamValue(segment.substring(separator + 1).trim());
+		let keyMatch = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+		if (!keyMatch) continue;
+		let [, name, index, encoded] = keyMatch;
+		if (index === undefined && !encoded) {
+			result.params[name] = value;
+		} else {
+			continuations[name] = continuations[name] ?? [];
+			continuations[name].push({ index: index ? parseInt(index) : 0, value: value, encoded: !!encoded });
+		}
+	}
+
+	for (let name of Object.keys(continuations)) {
+		let sections = continuations[name].sort((a, b) => a.index - b.index);
+		let charset: string | null = null;
+		let bytes: number[] = [];
+		for (let section of sections) {
+			let value = section.value;
+			if (section.encoded && section.index === 0) {
+				// charset'language'value
+				let charsetMatch = /^([^']*)'[^']*'(.*)$/.exec(value);
+				if (charsetMatch) {
+					charset = charsetMatch[1];
+					value = charsetMatch[2];
+				}
+			}
+			let sectionText = section.encoded ? percentDecode(value) : value;
+			for (let i = 0; i < sectionText.length; i++) bytes.push(sectionText.charCodeAt(i) & 0xff);
+		}
+		result.params[name] = decodeBytes(new Uint8Array(bytes), charset);
+	}
+
+	return result;
+};
+
+/**
+ * Returns the file name of the attachment part from Content-Disposition filename or Content-Type name
+ * parameters. Raw 8 bit names and RFC 2047 encoded names are also decoded
+ * @param part
+ * @returns
+ */
+const getMimePartFileName = (part: MimePart): string => {
+	let disposition = parseHeaderValue(part.headers['content-disposition'] ?? '');
+	let contentType = parseHeaderValue(part.headers['content-type'] ?? '');
+	let fileName = disposition.params['filename'] || contentType.params['name'] || '';
+	return decodeEncodedWords(decodeBinaryString(fileName)).trim();
+};
+
+/**
+ * Splits the header value by semicolons, which are not within quotes
+ * @param headerValue
+ * @returns
+ */
+const splitHeaderParams = (headerValue: string): string[] => {
+	let segments: string[] = [];
+	let current = '';
+	let quoted = false;
+	for (let i = 0; i < headerValue.length; i++) {
+		let char = headerValue[i];
+		if (char === '\\' && quoted && i + 1 < headerValue.length) {
+			current += char + headerValue[++i];
+		} else if (char === '"') {
+			quoted = !quoted;
+			current += char;
+		} else if (char === ';' && !quoted) {
+			segments.push(current);
+			current = '';
+		} else {
+			current += char;
+		}
+	}
+	segments.push(current);
+	return segments;
+};
+
+const unquoteParamValue = (value: string): string => {
+	if (value.length < 2 || !value.startsWith('"') || !value.endsWith('"')) return value;
+	return value.substring(1, value.length - 1).replace(/\\(.)/g, '$1');
+};
+
+const percentDecode = (value: string): string => {
+	return value.replace(/%([0-9A-Fa-f]{2})/g, (match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+/* ------------ TRANSFER ENCODINGS ------------ */
+
+/**
+ * Decodes the body of the part with its Content-Transfer-Encoding into bytes. 7bit, 8bit and binary bodies
+ * are already raw bytes
+ * @param params
+ * @returns
+ */
+const decodeTransferEncoding = (params: { body: string; encoding: string | undefined }): Uint8Array => {
+	const { body } = params;
+	let encoding = (params.encoding ?? '').trim().toLowerCase();
+	if (encoding === 'base64') {
+		try {
+			return binaryStringToBytes(atob(body.replace(/[^A-Za-z0-9+/]/g, '')));
+		} catch (err) {
+			return binaryStringToBytes(body);
+		}
+	}
+	if (encoding === 'quoted-printable') {
+		let decoded = body
+			.replace(/=\r?\n/g, '')
+			.replace(/=([0-9A-Fa-f]{2})/g, (match, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+		return binaryStringToBytes(decoded);
+	}
+	return binaryStringToBytes(body);
+};
@@ -1,13 +1,17 @@
-import { FuzzySuggestModal, TFolder, App } from 'obsidian';
+import { FuzzySuggestModal, TFolder, App, Notice } from 'obsidian';
+import MsgHandlerPlugin from 'main';
 import { base64ToArrayBuffer } from './utils';
+import { saveAttachmentToFolder } from 'attachments';
 
 export class FolderToSaveSuggestionModal extends FuzzySuggestModal<TFolder> {
 	app: App;
+	plugin: MsgHandlerPlugin;
 	fileName: string;
 	fileToSave: Uint8Array;
 
-	constructor(app: App, fileToSave: Uint8Array | string, fileName: string) {
-		super(app);
+	constructor(plugin: MsgHandlerPlugin, fileToSave: Uint8Array | string, fileName: string) {
+		super(plugin.app);
+		this.plugin = plugin;
 		this.fileName = fileName;
 		if (typeof fileToSave === 'string') {
 			fileToSave = base64ToArrayBuffer(fileToSave);
@@ -23,8 +27,22 @@ export class FolderToSaveSuggestionModal extends FuzzySuggestModal<TFolder> {
 		return getAllFoldersInVault(this.app);
 	}
 
-	onChooseItem(item: TFolder, evt: MouseEvent | KeyboardEvent) {
-		this.app.vault.createBinary(item.path + '/' + this.fileName, this.fileToSave);
+	async onChooseItem(item: TFolder, evt: MouseEvent | KeyboardEvent) {
+		try {
+			let file = await saveAttachmentToFolder({
+				plugin: this.plugin,
+				folderPath: item.path,
+				fileName: this.fileName,
+				data: this.fileToSave,
+				collisionMode: this.plugin.settings.attachmentCollisionMode,
+			});
+			new Notice(
+				file ? `Saved to ${file.path}` : `${this.fileName} already exists in ${item.path}, skipped`
+			);
+		} catch (err) {
+			new Notice(`${this.fileName} could not be saved`);
+			if (this.plugin.settings.logEnabled) console.log('Attachment could not be saved', err);
+		}
 	}
 }
 
@@ -1650,7 +1650,12 @@ var CONST = {
 				'5d02': 'senderEmail',
 				1000: 'body',
 				1013: 'bodyHTML',
+				1009: 'compressedRtf',
 				'007d': 'headers',
+				'001a': 'messageClass',
+				1035: 'internetMessageId',
+				1042: 'inReplyToId',
+				1039: 'internetReferences',
 				// attachment specific
 				3703: 'extension',
 				3704: 'fileNameShort',
@@ -1660,10 +1665,127 @@ var CONST = {
 				// recipient specific
 				3001: 'name',
 				'39fe': 'email',
+				// contact specific
+				'3a06': 'givenName',
+				'3a44': 'middleName',
+				'3a11': 'surname',
+				'3a4f': 'nickname',
+				'3a45': 'displayNamePrefix',
+				'3a05': 'generation',
+				'3a16': 'companyName',
+				'3a17': 'jobTitle',
+				'3a18': 'departmentName',
+				'3a51': 'businessHomePage',
+				'3a1a': 'primaryPhone',
+				'3a08': 'businessPhone',
+				'3a1b': 'business2Phone',
+				'3a09': 'homePhone',
+				'3a2f': 'home2Phone',
+				'3a1c': 'mobilePhone',
+				'3a24': 'businessFax',
+				'3a1f': 'otherPhone',
+				'3a29': 'businessAddressStreet',
+				'3a27': 'businessAddressCity',
+				'3a28': 'businessAddressState',
+				'3a2a': 'businessAddressPostalCode',
+				'3a26': 'businessAddressCountry',
+				'3a5d': 'homeAddressStreet',
+				'3a59': 'homeAddressCity',
+				'3a5c': 'homeAddressState',
+				'3a5b': 'homeAddressPostalCode',
+				'3a5a': 'homeAddressCountry',
+				'3a63': 'otherAddressStreet',
+				'3a5f': 'otherAddressCity',
+				'3a62': 'otherAddressState',
+				'3a61': 'otherAddressPostalCode',
+				'3a60': 'otherAddressCountry',
 			},
 			CLASS_MAPPING: {
 				ATTACHMENT_DATA: '3701',
 			},
+			// fixed size properties stored within the __properties_version1.0 stream
+			PROPERTIES_STREAM: '__properties_version1.0',
+			PROPERTIES_HEADER_SIZE: {
+				MESSAGE: 32,
+				EMBEDDED_MESSAGE: 24,
+				OTHER: 8,
+			},
+			PROPERTY_MAPPING: {
+				// email specific
+				'0039': 'clientSubmitTime',
+				'0e06': 'messageDeliveryTime',
+				'3ffd': 'messageCodepage',
+				'3fde': 'internetCodepage',
+				'0060': 'startDate',
+				'0061': 'endDate',
+				'0017': 'importance',
+				3007: 'creationTime',
+				3008: 'lastModificationTime',
+				// contact specific
+				'3a42': 'birthday',
+				// recipient specific
+				'0c15': 'recipientType',
+				'5ffd': 'recipientFlags',
+				'5fff': 'recipientTrackStatus',
+			},
+			// named properties get their ids (0x8000 and above) per file, they are mapped by property set and id
+			NAMEID: {
+				STORAGE: '__nameid_version1.0',
+				GUID_STREAM: '__substg1.0_00020102',
+				ENTRY_STREAM: '__substg1.0_00030102',
+			},
+			NAMED_PROPERTY_MAPPING: {
+				// PSETID_Appointment
+				'00062002-0000-0000-c000-000000000046': {
+					8208: 'location',
+					'820d': 'appointmentStart',
+					'820e': 'appointmentEnd',
+					8215: 'appointmentAllDay',
+					8223: 'recurring',
+					8232: 'recurrencePattern',
+					8234: 'timeZoneDescription',
+				},
+				// PSETID_Meeting
+				'6ed8da90-450b-101b-98da-00aa003f1305': {
+					'0002': 'where',
+					'0003': 'globalObjectId',
+				},
+				// PSETID_Address (contacts)
+				'00062004-0000-0000-c000-000000000046': {
+					8005: 'fileUnder',
+					8045: 'workAddressStreet',
+					8046: 'workAddressCity',
+					8047: 'workAddressState',
+					8048: 'workAddressPostalCode',
+					8049: 'workAddressCountry',
+					8080: 'email1DisplayName',
+					8083: 'email1Address',
+					8090: 'email2DisplayName',
+					8093: 'email2Address',
+					'80a0': 'email3DisplayName',
+					'80a3': 'email3Address',
+				},
+				// PSETID_Task
+				'00062003-0000-0000-c000-000000000046': {
+					8101: 'taskStatus',
+					8102: 'percentComplete',
+					8104: 'taskStartDate',
+					8105: 'taskDueDate',
+					'810f': 'taskDateCompleted',
+					'811c': 'taskComplete',
+					'811f': 'taskOwner',
+				},
+				// PSETID_Note (sticky notes)
+				'0006200e-0000-0000-c000-000000000046': {
+					'8b00': 'noteColor',
+				},
+			},
+			PROPERTY_TYPE_MAPPING: {
+				'0003': 'integer',
+				'0005': 'double',
+				'000b': 'boolean',
+				'0040': 'time',
+			},
 			TYPE_MAPPING: {
 				'001e': 'string',
 				'001f': 'unicode',
@@ -1908,10 +2030,63 @@ function fieldsData(ds, msgData) {
 		attachments: [],
 		recipients: [],
 	};
+	msgData.namedPropertyNames = namedPropertyData(ds, msgData);
 	fieldsDataDir(ds, msgData, msgData.propertyData[0], fields);
 	return fields;
 }
 
+// resolve the ids of the named properties, which are used by the root and the embedded messages
+function namedPropertyData(ds, msgData) {
+	var names = {};
+	var nameIdProperty = findChildProperty(msgData, msgData.propertyData[0], CONST.MSG.FIELD.NAMEID.STORAGE);
+	if (!nameIdProperty) return names;
+	var guidProperty = findChildProperty(msgData, nameIdProperty, CONST.MSG.FIELD.NAMEID.GUID_STREAM);
+	var entryProperty = findChildProperty(msgData, nameIdProperty, CONST.MSG.FIELD.NAMEID.ENTRY_STREAM);
+	if (!guidProperty || !entryProperty) return names;
+	var guids = getFieldValue(ds, msgData, guidProperty, 'binary');
+	var entries = getFieldValue(ds, msgData, entryProperty, 'binary');
+	if (!guids || !entries) return names;
+	var view = new DataView(entries.buffer, entries.byteOffset, entries.byteLength);
+
+	for (var offset = 0; offset + 8 <= entries.length; offset += 8) {
+		var nameIdentifier = view.getUint32(offset, true);
+		var indexAndKind = view.getUint32(offset + 4, true);
+		// properties named by a string are not mapped
+		if (indexAndKind & 1) continue;
+		var guidIndex = (indexAndKind >>> 1) & 0x7fff;
+		var propertyIndex = indexAndKind >>> 16;
+		// guid indexes 1 and 2 are PS_MAPI and PS_PUBLIC_STRINGS, others are within the guid stream
+		if (guidIndex < 3) continue;
+		var mapping = CONST.MSG.FIELD.NAMED_PROPERTY_MAPPING[guidToString(guids, (guidIndex - 3) * 16)];
+		var fieldName = mapping && mapping[toHex4(nameIdentifier)];
+		if (fieldName) names[toHex4(0x8000 + propertyIndex)] = fieldName;
+	}
+	return names;
+}
+
+function findChildProperty(msgData, dirProperty, name) {
+	var children = dirProperty.children || [];
+	for (var i = 0; i < children.length; i++) {
+		var childProperty = msgData.propertyData[children[i]];
+		if (childProperty && childProperty.name == name) return childProperty;
+	}
+	return null;
+}
+
+function guidToString(bytes, offset) {
+	if (offset + 16 > bytes.length) return '';
+	var hex = function (start, end, reversed) {
+		var parts = [];
+		for (var i = start; i < end; i++) parts.push(('0' + bytes[offset + i].toString(16)).slice(-2));
+		return (reversed ? parts.reverse() : parts).join('');
+	};
+	return [hex(0, 4, true), hex(4, 6, true), hex(6, 8, true), hex(8, 10), hex(10, 16)].join('-');
+}
+
+function getFieldName(msgData, mapping, fieldClass) {
+	return mapping[fieldClass] || msgData.namedPropertyNames[fieldClass];
+}
+
 function fieldsDataDir(ds, msgData, dirProperty, fields) {
 	if (dirProperty.children && dirProperty.children.length > 0) {
 		for (var i = 0; i < dirProperty.children.length; i++) {
@@ -1924,6 +2099,17 @@ function fieldsDataDir(ds, msgData, dirProperty, fields) {
 				childProperty.name.indexOf(CONST.MSG.FIELD.PREFIX.DOCUMENT) == 0
 			) {
 				fieldsDataDocument(ds, msgData, childProperty, fields);
+			} else if (
+				childProperty.type == CONST.MSG.PROP.TYPE_ENUM.DOCUMENT &&
+				childProperty.name == CONST.MSG.FIELD.PROPERTIES_STREAM
+			) {
+				var headerSize =
+					dirProperty === msgData.propertyData[0]
+						? CONST.MSG.FIELD.PROPERTIES_HEADER_SIZE.MESSAGE
+						: getFieldType(dirProperty) == CONST.MSG.FIELD.DIR_TYPE.INNER_MSG
+						? CONST.MSG.FIELD.PROPERTIES_HEADER_SIZE.EMBEDDED_MESSAGE
+						: CONST.MSG.FIELD.PROPERTIES_HEADER_SIZE.OTHER;
+				fieldsDataProperties(ds, msgData, childProperty, fields, headerSize);
 			}
 		}
 	}
@@ -1940,14 +2126,21 @@ function fieldsDataDirInner(ds, msgData, dirProperty, fields) {
 		var recipientField = {};
 		fields.recipients.push(recipientField);
 		fieldsDataDir(ds, msgData, dirProperty, recipientField);
+	} else if (dirProperty.name == CONST.MSG.FIELD.NAMEID.STORAGE) {
+		// named property mapping is read before the fields, its streams are not fields
 	} else {
 		// other dir
 		var childFieldType = getFieldType(dirProperty);
 		if (childFieldType != CONST.MSG.FIELD.DIR_TYPE.INNER_MSG) {
 			fieldsDataDir(ds, msgData, dirProperty, fields);
 		} else {
-			// MSG as attachment currently isn't supported
+			// MSG as attachment: fields of the embedded message are parsed like the root message
 			fields.innerMsgContent = true;
+			fields.innerMsgContentFields = {
+				attachments: [],
+				recipients: [],
+			};
+			fieldsDataDir(ds, msgData, dirProperty, fields.innerMsgContentFields);
 		}
 	}
 }
@@ -1961,7 +2154,7 @@ function fieldsDataDocument(ds, msgData, documentProperty, fields) {
 	var fieldClass = value.substring(0, 4);
 	var fieldType = value.substring(4, 8);
 
-	var fieldName = CONST.MSG.FIELD.NAME_MAPPING[fieldClass];
+	var fieldName = getFieldName(msgData, CONST.MSG.FIELD.NAME_MAPPING, fieldClass);
 	var fieldTypeMapped = CONST.MSG.FIELD.TYPE_MAPPING[fieldType];
 
 	if (fieldName) {
@@ -1969,6 +2162,7 @@ function fieldsDataDocument(ds, msgData, documentProperty, fields) {
 
 		if (isAddPropertyValue(fieldName, fieldTypeMapped)) {
 			fields[fieldName] = applyValueConverter(fieldName, fieldTypeMapped, fieldValue);
+			trackAnsiField(fields, fieldName, fieldTypeMapped);
 		}
 	}
 	if (fieldClass == CONST.MSG.FIELD.CLASS_MAPPING.ATTACHMENT_DATA) {
@@ -1978,14 +2172,58 @@ function fieldsDataDocument(ds, msgData, documentProperty, fields) {
 	}
 }
 
-// todo: html body test
-function applyValueConverter(fieldName, fieldTypeMapped, fieldValue) {
-	if (fieldTypeMapped === 'binary' && fieldName === 'bodyHTML') {
-		return convertUint8ArrayToString(fieldValue);
+function fieldsDataProperties(ds, msgData, documentProperty, fields, headerSize) {
+	var content = getFieldValue(ds, msgData, documentProperty, 'binary');
+	if (!content) return;
+	var view = new DataView(content.buffer, content.byteOffset, content.byteLength);
+
+	for (var offset = headerSize; offset + 16 <= content.length; offset += 16) {
+		var propertyType = view.getUint16(offset, true);
+		var propertyId = view.getUint16(offset + 2, true);
+		var fieldName = getFieldName(msgData, CONST.MSG.FIELD.PROPERTY_MAPPING, toHex4(propertyId));
+		var fieldTypeMapped = CONST.MSG.FIELD.PROPERTY_TYPE_MAPPING[toHex4(propertyType)];
+		if (!fieldName || !fieldTypeMapped) continue;
+
+		if (fieldTypeMapped === 'integer') {
+			fields[fieldName] = view.getInt32(offset + 8, true);
+		} else if (fieldTypeMapped === 'double') {
+			fields[fieldName] = view.getFloat64(offset + 8, true);
+		} else if (fieldTypeMapped === 'boolean') {
+			fields[fieldName] = view.getUint16(offset + 8, true) !== 0;
+		} else if (fieldTypeMapped === 'time') {
+			fields[fieldName] = fileTimeToDate(
+				view.getUint32(offset + 8, true),
+				view.getUint32(offset + 12, true)
+			);
+		}
 	}
+}
+
+function toHex4(value) {
+	return ('0000' + value.toString(16)).slice(-4);
+}
+
+// FILETIME is the count of 100-nanosecond intervals since January 1, 1601 (UTC)
+function fileTimeToDate(low, high) {
+	if (low === 0 && high === 0) return null;
+	var milliseconds = (high * 4294967296 + low) / 10000 - 11644473600000;
+	return new Date(milliseconds);
+}
+
+// binary html body is kept as bytes, its charset is given by the internetCodepage property
+function applyValueConverter(fieldName, fieldTypeMapped, fieldValue) {
 	return fieldValue;
 }
 
+// ANSI strings are read one character per byte, their names are kept to decode them with the message codepage
+function trackAnsiField(fields, fieldName, fieldTypeMapped) {
+	var ansiFieldNames = (fields.ansiFieldNames || []).filter(function (name) {
+		return name !== fieldName;
+	});
+	if (fieldTypeMapped === 'string') ansiFieldNames.push(fieldName);
+	fields.ansiFieldNames = ansiFieldNames;
+}
+
 function getFieldType(fieldProperty) {
 	var value = fieldProperty.name.substring(12).toLowerCase();
 	return value.substring(4, 8);
@@ -2104,10 +2342,6 @@ function getFieldValue(ds, msgData, fieldProperty, typeMapped) {
 	return value;
 }
 
-function convertUint8ArrayToString(uint8ArraValue) {
-	return new TextDecoder('utf-8').decode(uint8ArraValue);
-}
-
 // MSG Reader
 var MSGReader = function (arrayBuffer) {
 	this.ds = new DataStream(arrayBuffer, 0, DataStream.LITTLE_ENDIAN);
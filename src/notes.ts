@@ -0,0 +1,246 @@
+import MsgHandlerPlugin from 'main';
+import { TFile, htmlToMarkdown, normalizePath, stringifyYaml } from 'obsidian';
+import dayjs from 'dayjs';
+import { MSGAttachment, MSGCalendarEvent, MSGRenderData } from 'types';
+import { base64ToArrayBuffer, createFolderIfNotExists, getMsgContent, sanitizeFileName } from 'utils';
+import { formatAddress, getMessageTemplateValues, getTemplateForFile, renderTemplate } from 'templates';
+import { formatEventTime } from 'calendar';
+
+/* ------------ EMAIL TO NOTE CONVERSION ------------ */
+
+/**
+ * Creates a markdown note from the provided msg/eml file with the frontmatter, body and attachments
+ * of the message by using the note settings of the plugin. Returns the created note
+ * @param params
+ * @returns
+ */
+export const createNoteFromMessage = async (params: {
+	plugin: MsgHandlerPlugin;
+	msgFile: TFile;
+}): Promise<TFile> => {
+	const { plugin, msgFile } = params;
+	const { settings } = plugin;
+
+	let msgContent = await getMsgContent({ plugin: plugin, msgFile: msgFile });
+	let messageDate = getMessageDate(msgContent);
+	let values = getMessageTemplateValues({ msgContent: msgContent, fileName: msgFile.basename });
+
+	// Find an available path for the new note
+	let folderPath = normalizePath(settings.noteFolderPath || '/');
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+	let noteName = sanitizeFileName(renderTemplate(settings.noteFileName, values));
+	if (noteName === '') noteName = msgFile.basename;
+	let notePath = getAvailableNotePath({ plugin: plugin, folderPath: folderPath, noteName: noteName });
+
+	// Save the attachments next to the note if enabled
+	let savedAttachments: SavedAttachment[] = [];
+	if (settings.saveAttachmentsWithNote) {
+		savedAttachments = await saveAttachmentsForNote({
+			plugin: plugin,
+			attachments: msgContent.attachments,
+			notePath: notePath,
+		});
+	}
+
+	let template = getTemplateForFile({ templates: settings.noteTemplates, msgFile: msgFile });
+	let noteContent = renderTemplate(template.content, {
+		...values,
+		frontmatter: getFrontmatter({ plugin, msgContent, msgFile, notePath, messageDate }),
+		body: getMarkdownBody({ plugin, msgContent, savedAttachments, notePath }),
+		attachments: getAttachmentLinks({ plugin, msgContent, savedAttachments, notePath }),
+		source: plugin.app.fileManager.generateMarkdownLink(msgFile, notePath),
+	});
+
+	let noteFile = await plugin.app.vault.create(notePath, noteContent);
+	if (settings.logEnabled) console.log(`Note is created for ${msgFile.path} at ${notePath}`);
+	return noteFile;
+};
+
+/* ------------ MEETING NOTES ------------ */
+
+/**
+ * Creates a meeting note for the calendar event of the message within the meeting note folder. The note
+ * lists the time, location, organizer and attendees of the event and links the email file if provided
+ * @param params
+ * @returns
+ */
+export const createMeetingNote = async (params: {
+	plugin: MsgHandlerPlugin;
+	event: MSGCalendarEvent;
+	msgFile?: TFile;
+}): Promise<TFile> => {
+	const { plugin, event, msgFile } = params;
+	let folderPath = normalizePath(plugin.settings.meetingNoteFolderPath || '/');
+	await createFolderIfNotExists({ plugin: plugin, folderPath: folderPath });
+
+	let title = event.title || 'Meeting';
+	let start = event.startTime !== null ? dayjs(event.startTime) : null;
+	let noteName = sanitizeFileName(`${start ? start.format('YYYY-MM-DD') + ' ' : ''}${title}`);
+	let notePath = getAvailableNotePath({ plugin: plugin, folderPath: folderPath, noteName: noteName });
+	let organizer = event.organizer ? formatAddress(event.organizer.name, event.organizer.email) : '';
+	let timeFormat = event.allDay ? 'YYYY-MM-DD' : 'YYYY-MM-DDTHH:mm';
+
+	let frontmatter = {
+		title: title,
+		start: start ? start.format(timeFormat) : '',
+		end: event.endTime !== null ? dayjs(event.endTime).format(timeFormat) : '',
+		location: event.location,
+		organizer: organizer,
+		attendees: event.attendees.map((attendee) => formatAddress(attendee.name, attendee.email)),
+		source: msgFile ? plugin.app.fileManager.generateMarkdownLink(msgFile, notePath) : '',
+	};
+	let details = [
+		`- **When**: ${formatEventTime(event)}${event.timeZone ? ` (${event.timeZone})` : ''}`,
+		event.location && `- **Where**: ${event.location}`,
+		event.recurrence && `- **Recurrence**: ${event.recurrence}`,
+		organizer && `- **Organizer**: ${organizer}`,
+	].filter((line) => line);
+	let attendees = event.attendees.map(
+		(attendee) =>
+			`- ${formatAddress(attendee.name, attendee.email)} (${attendee.role}, ${attendee.status.replace(
+				'-',
+				' '
+			)})`
+	);
+
+	let noteContent =
+		'---\n' +
+		stringifyYaml(frontmatter) +
+		'---\n' +
+		`# ${title}\n\n` +
+		details.join('\n') +
+		'\n\n' +
+		(attendees.length > 0 ? '## Attendees\n\n' + attendees.join('\n') + '\n\n' : '') +
+		'## Notes\n\n';
+
+	let noteFile = await plugin.app.vault.create(notePath, noteContent);
+	if (plugin.settings.logEnabled) console.log(`Meeting note is created for ${title} at ${notePath}`);
+	return noteFile;
+};
+
+/* ------------ HELPERS ------------ */
+
+type SavedAttachment = { attachment: MSGAttachment; file: TFile };
+
+/**
+ * Returns the sent date of the message as dayjs object if it is available
+ * @param msgContent
+ * @returns
+ */
+const getMessageDate = (msgContent: MSGRenderData): dayjs.Dayjs | null => {
+	return msgContent.sentTime ? dayjs(msgContent.sentTime) : null;
+};
+
+/**
+ * Finds a path within the folder provided that is not used by any other file
+ * @param params
+ * @returns
+ */
+const getAvailableNotePath = (params: { plugin: MsgHandlerPlugin; folderPath: string; noteName: string }) => {
+	const { plugin, folderPath, noteName } = params;
+	let prefix = folderPath === '/' ? '' : folderPath + '/';
+	let notePath = normalizePath(`${prefix}${noteName}.md`);
+	let counter = 1;
+	while (plugin.app.vault.getAbstractFileByPath(notePath)) {
+		notePath = normalizePath(`${prefix}${noteName} ${counter}.md`);
+		counter++;
+	}
+	return notePath;
+};
+
+/**
+ * Creates the YAML frontmatter block for the message
+ * @param params
+ * @returns
+ */
+const getFrontmatter = (params: {
+	plugin: MsgHandlerPlugin;
+	msgContent: MSGRenderData;
+	msgFile: TFile;
+	notePath: string;
+	messageDate: dayjs.Dayjs | null;
+}): string => {
+	const { plugin, msgContent, msgFile, notePath, messageDate } = params;
+	let frontmatter = {
+		from: formatAddress(msgContent.senderName, msgContent.senderEmail),
+		to: msgContent.recipients.filter((r) => r.type === 'to').map((r) => formatAddress(r.name, r.email)),
+		cc: msgContent.recipients.filter((r) => r.type === 'cc').map((r) => formatAddress(r.name, r.email)),
+		date: messageDate ? messageDate.format('YYYY-MM-DDTHH:mm:ss') : '',
+		subject: msgContent.subject,
+		source: plugin.app.fileManager.generateMarkdownLink(msgFile, notePath),
+	};
+	return '---\n' + stringifyYaml(frontmatter) + '---\n';
+};
+
+/**
+ * Converts the body of the message into markdown. HTML body is preferred if it is available.
+ * Inline images are linked to the saved attachments or removed if they are not saved
+ * @param params
+ * @returns
+ */
+const getMarkdownBody = (params: {
+	plugin: MsgHandlerPlugin;
+	msgContent: MSGRenderData;
+	savedAttachments: SavedAttachment[];
+	notePath: string;
+}): string => {
+	const { plugin, msgContent, savedAttachments, notePath } = params;
+	if (!msgContent.bodyHTML) return msgContent.body.replace(/\r\n/g, '\n').trim();
+
+	let doc = new DOMParser().parseFromString(msgContent.bodyHTML, 'text/html');
+	doc.querySelectorAll('head, style, script').forEach((el) => el.remove());
+	let markdown = htmlToMarkdown(doc.body);
+
+	return markdown
+		.replace(/!\[[^\]]*\]\(<?cid:([^)>\s]+)>?\)/g, (match, contentId) => {
+			let saved = savedAttachments.find((s) => s.attachment.contentId === contentId);
+			return saved ? '!' + plugin.app.fileManager.generateMarkdownLink(saved.file, notePath) : '';
+		})
+		.trim();
+};
+
+/**
+ * Creates the markdown list of attachments. Saved attachments are linked, others are listed by name
+ * @param params
+ * @returns
+ */
+const getAttachmentLinks = (params: {
+	plugin: MsgHandlerPlugin;
+	msgContent: MSGRenderData;
+	savedAttachments: SavedAttachment[];
+	notePath: string;
+}): string => {
+	const { plugin, msgContent, savedAttachments, notePath } = params;
+	if (msgContent.attachments.length === 0) return '';
+	let lines = msgContent.attachments.map((attachment) => {
+		let saved = savedAttachments.find((s) => s.attachment === attachment);
+		return saved
+			? '- ' + plugin.app.fileManager.generateMarkdownLink(saved.file, notePath)
+			: '- ' + attachment.fileName;
+	});
+	return '## Attachments\n\n' + lines.join('\n');
+};
+
+/**
+ * Saves the attachments of the message by using the attachment location settings of the vault
+ * @param params
+ * @returns
+ */
+const saveAttachmentsForNote = async (params: {
+	plugin: MsgHandlerPlugin;
+	attachments: MSGAttachment[];
+	notePath: string;
+}): Promise<SavedAttachment[]> => {
+	const { plugin, attachments, notePath } = params;
+	let savedAttachments: SavedAttachment[] = [];
+	for (let attachment of attachments) {
+		if (!attachment.fileBase64) continue;
+		let attachmentPath = await plugin.app.fileManager.getAvailablePathForAttachment(
+			sanitizeFileName(attachment.fileName),
+			notePath
+		);
+		let file = await plugin.app.vault.createBinary(attachmentPath, base64ToArrayBuffer(attachment.fileBase64));
+		savedAttachments.push({ attachment: attachment, file: file });
+	}
+	return savedAttachments;
+};
@@ -0,0 +1,237 @@
+import dayjs from 'dayjs';
+import { MSGDataIndexed, MSGItemType } from 'types';
+
+/* ------------ SEARCH QUERY LANGUAGE ------------ */
+
+// --> Operators that can be used within the search input like "from:alice"
+export type SearchOperator =
+	| 'text'
+	| 'from'
+	| 'to'
+	| 'cc'
+	| 'bcc'
+	| 'subject'
+	| 'body'
+	| 'has'
+	| 'attachment'
+	| 'type'
+	| 'before'
+	| 'after';
+
+export interface SearchQueryFilter {
+	operator: SearchOperator;
+	value: string;
+	negated: boolean;
+	// Only available for before/after operators
+	timestamp?: number;
+}
+
+export interface SearchQuery {
+	// Filters applied to the indexed records before fuzzy ranking
+	filters: SearchQueryFilter[];
+	// Remaining free text, which is used for fuzzy ranking
+	fuzzyKey: string;
+	errors: string[];
+}
+
+const OPERATORS: SearchOperator[] = [
+	'from',
+	'to',
+	'cc',
+	'bcc',
+	'subject',
+	'body',
+	'has',
+	'attachment',
+	'type',
+	'before',
+	'after',
+];
+const HAS_VALUES = ['attachment', 'attachments'];
+const TYPE_VALUES: MSGItemType[] = ['message', 'meeting', 'contact', 'task', 'note'];
+const MONTHS = [
+	'january',
+	'february',
+	'march',
+	'april',
+	'may',
+	'june',
+	'july',
+	'august',
+	'september',
+	'october',
+	'november',
+	'december',
+];
+
+/**
+ * Parses the search input into filters and fuzzy search key. Supported syntax:
+ * from:, to:, cc:, bcc:, subject:, body:, has:attachment, attachment: (name or text of attachments),
+ * type: (message, meeting, contact, task or note), before:/after: dates, "quoted phrases" and -negation
+ * @param input
+ * @returns
+ */
+export const parseSearchQuery = (input: string): SearchQuery => {
+	let query: SearchQuery = { filters: [], fuzzyKey: '', errors: [] };
+	let fuzzyParts: string[] = [];
+	let tokenRegex = /(-?)(?:(\w+):)?(?:"([^"]*)("?)|(\S+))/g;
+	let match;
+
+	while ((match = tokenRegex.exec(input))) {
+		let [token, negation, operatorName, phrase, closingQuote, word] = match;
+		let negated = negation === '-';
+		let isPhrase = phrase !== undefined;
+		let value = isPhrase ? phrase : word;
+		let operator = operatorName?.toLowerCase() as SearchOperator;
+
+		// Operator without value like "from:" is matched as a single word
+		let emptyOperatorMatch = !operatorName && word ? /^(\w+):$/.exec(word) : null;
+		if (emptyOperatorMatch && OPERATORS.includes(emptyOperatorMatch[1].toLowerCase() as SearchOperator)) {
+			query.errors.push(`Missing value for ${emptyOperatorMatch[1].toLowerCase()}:`);
+			continue;
+		}
+
+		if (isPhrase && closingQuote !== '"') {
+			query.errors.push(`Missing closing quote in ${token}`);
+			continue;
+		}
+
+		// Unknown operators like "re:" are searched as plain text
+		if (operatorName && !OPERATORS.includes(operator)) {
+			value = operatorName + ':' + (value ?? '');
+			operator = undefined;
+		}
+
+		if (!operator) {
+			if (!value) continue;
+			if (isPhrase || negated) {
+				query.filters.push({ operator: 'text', value: value, negated: negated });
+			}
+			if (!negated) fuzzyParts.push(value);
+			continue;
+		}
+
+		if (!value) {
+			query.errors.push(`Missing value for ${operator}:`);
+			continue;
+		}
+
+		if (operator === 'has') {
+			if (!HAS_VALUES.includes(value.toLowerCase())) {
+				query.errors.push(`Unknown value for has: "${value}". Use has:attachment`);
+				continue;
+			}
+			query.filters.push({ operator: operator, value: 'attachment', negated: negated });
+		} else if (operator === 'type') {
+			let itemType = value.toLowerCase().replace(/s$/, '') as MSGItemType;
+			if (!TYPE_VALUES.includes(itemType)) {
+				query.errors.push(`Unknown value for type: "${value}". Use ${TYPE_VALUES.join(', ')}`);
+				continue;
+			}
+			query.filters.push({ operator: operator, value: itemType, negated: negated });
+		} else if (operator === 'before' || operator === 'after') {
+			let timestamp = parseQueryDate(value);
+			if (timestamp === null) {
+				query.errors.push(`Invalid date for ${operator}: "${value}". Use a format like 2023-03-31`);
+				continue;
+			}
+			query.filters.push({ operator: operator, value: value, negated: negated, timestamp: timestamp });
+		} else {
+			query.filters.push({ operator: operator, value: value, negated: negated });
+		}
+	}
+
+	query.fuzzyKey = fuzzyParts.join(' ');
+	return query;
+};
+
+/**
+ * Checks if the indexed record satisfies all filters of the query
+ * @param params
+ * @returns
+ */
+export const matchesSearchFilters = (params: {
+	record: MSGDataIndexed;
+	filters: SearchQueryFilter[];
+}): boolean => {
+	const { record, filters } = params;
+	return filters.every((filter) => matchesSearchFilter(record, filter) !== filter.negated);
+};
+
+const matchesSearchFilter = (record: MSGDataIndexed, filter: SearchQueryFilter): boolean => {
+	const contains = (texts: string[]) =>
+		texts.some((text) => text && text.toLowerCase().includes(filter.value.toLowerCase()));
+	const recipientTexts = record.recipients.reduce((texts: string[], r) => texts.concat([r.name, r.email]), []);
+	const attachmentTexts = (record.attachments ?? []).reduce(
+		(texts: string[], a) => texts.concat([a.fileName, a.text]),
+		[]
+	);
+
+	switch (filter.operator) {
+		case 'from':
+			return contains([record.senderName, record.senderEmail]);
+		case 'to':
+			return contains(recipientTexts);
+		case 'cc':
+		case 'bcc':
+			return contains(
+				record.recipients
+					.filter((r) => r.type === filter.operator)
+					.reduce((texts: string[], r) => texts.concat([r.name, r.email]), [])
+			);
+		case 'subject':
+			return contains([record.subject]);
+		case 'body':
+			return contains([record.body]);
+		case 'has':
+			return record.attachmentCount > 0;
+		case 'attachment':
+			return contains(attachmentTexts);
+		case 'type':
+			return (record.itemType ?? 'message') === filter.value;
+		case 'before':
+		case 'after': {
+			if (record.sentTime === null || record.sentTime === undefined) return false;
+			return filter.operator === 'before'
+				? record.sentTime < filter.timestamp
+				: record.sentTime >= filter.timestamp;
+		}
+		default:
+			return contains([
+				record.senderName,
+				record.senderEmail,
+				record.subject,
+				record.body,
+				...recipientTexts,
+				...attachmentTexts,
+			]);
+	}
+};
+
+/**
+ * Converts the date provided within the query to the timestamp of the start of that period.
+ * Accepts YYYY, YYYY-MM, YYYY-MM-DD (also with "/" or ".") and month names like "march" or "mar"
+ * @param value
+ * @returns
+ */
+const parseQueryDate = (value: string): number | null => {
+	let normalized = value.toLowerCase().replace(/[/.]/g, '-');
+
+	let dateMatch = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/.exec(normalized);
+	if (dateMatch) {
+		let [, year, month, day] = dateMatch;
+		let date = dayjs(new Date(parseInt(year), month ? parseInt(month) - 1 : 0, day ? parseInt(day) : 1));
+		if (!date.isValid() || (month && date.month() !== parseInt(month) - 1)) return null;
+		return date.valueOf();
+	}
+
+	// Month names refer to the latest occurrence of that month
+	let monthIndex = MONTHS.findIndex((month) => normalized.length >= 3 && month.startsWith(normalized));
+	if (monthIndex !== -1) {
+		let date = dayjs().month(monthIndex).startOf('month');
+		if (date.isAfter(dayjs())) date = date.subtract(1, 'year');
+		return date.valueOf();
+	}
+
+	return null;
+};
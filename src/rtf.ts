@@ -0,0 +1,235 @@
+import { bytesToBinaryString, getCodepageCharset } from 'charset';
+
+/* ------------ COMPRESSED RTF (MS-OXRTFCP) ------------ */
+
+const RTF_PREBUF =
+	'{\\rtf1\\ansi\\mac\\deff0\\deftab720{\\fonttbl;}{\\f0\\fnil \\froman \\fswiss \\fmodern \\fscript \\fdecor ' +
+	'MS Sans SerifSymbolArialTimes New RomanCourier{\\colortbl\\red0\\green0\\blue0\r\n\\par ' +
+	'\\pard\\plain\\f0\\fs20\\b\\i\\u\\tab\\tx';
+
+const COMPRESSED_TYPE = 0x75465a4c; // 'LZFu'
+const UNCOMPRESSED_TYPE = 0x414c454d; // 'MELA'
+
+/**
+ * Decompresses the PR_RTF_COMPRESSED property of an Outlook MSG file into the raw RTF string
+ * @param data
+ * @returns
+ */
+export const decompressRTF = (data: Uint8Array): string => {
+	if (!data || data.length < 16) return '';
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const compressedSize = view.getUint32(0, true);
+	const rawSize = view.getUint32(4, true);
+	const compressionType = view.getUint32(8, true);
+
+	if (compressionType === UNCOMPRESSED_TYPE) {
+		return bytesToBinaryString(data.subarray(16, 16 + rawSize));
+	}
+	if (compressionType !== COMPRESSED_TYPE) return '';
+
+	let dictionary = new Uint8Array(4096);
+	for (let i = 0; i < RTF_PREBUF.length; i++) dictionary[i] = RTF_PREBUF.charCodeAt(i);
+	let writePosition = RTF_PREBUF.length;
+
+	let output: number[] = [];
+	let position = 16;
+	let end = Math.min(data.length, compressedSize + 4);
+
+	while (position < end) {
+		let control = data[position++];
+		for (let bit = 0; bit < 8 && position < end; bit++) {
+			if (control & (1 << bit)) {
+				// Dictionary reference: 12 bit offset and 4 bit length, big endian
+				let reference = (data[position] << 8) | data[position + 1];
+				position += 2;
+				let offset = reference >> 4;
+				let length = (reference & 0x0f) + 2;
+				if (offset === writePosition % 4096) return bytesToBinaryString(output);
+				for (let i = 0; i < length; i++) {
+					let byte = dictionary[(offset + i) % 4096];
+					output.push(byte);
+					dictionary[writePosition % 4096] = byte;
+					writePosition++;
+				}
+			} else {
+				let byte = data[position++];
+				output.push(byte);
+				dictionary[writePosition % 4096] = byte;
+				writePosition++;
+			}
+		}
+	}
+
+	return bytesToBinaryString(output);
+};
+
+/* ------------ RTF DE-ENCAPSULATION (MS-OXRTFEX) ------------ */
+
+// --> Destinations which never carry visible message text
+const SKIPPED_DESTINATIONS = [
+	'fonttbl',
+	'colortbl',
+	'stylesheet',
+	'info',
+	'pict',
+	'header',
+	'footer',
+	'listtable',
+	'listoverridetable',
+	'revtbl',
+	'rsidtbl',
+	'generator',
+	'xmlnstbl',
+	'themedata',
+	'colorschememapping',
+	'latentstyles',
+	'datastore',
+	'mmathPr',
+	'filetbl',
+	'object',
+];
+
+const SYMBOL_WORDS: { [key: string]: string } = {
+	par: '\r\n',
+	line: '\r\n',
+	tab: '\t',
+	lquote: '‘',
+	rquote: '’',
+	ldblquote: '“',
+	rdblquote: '”',
+	bullet: '•',
+	endash: '–',
+	emdash: '—',
+	emspace: ' ',
+	enspace: ' ',
+};
+
+interface RTFGroupState {
+	skip: boolean;
+	htmlTag: boolean;
+	htmlRtf: boolean;
+	unicodeSkip: number;
+}
+
+/**
+ * Converts the RTF body of a message into HTML. Bodies that were encapsulated from HTML
+ * (\fromhtml1) are restored to their original markup, any other RTF is reduced to its text
+ * @param rtf
+ * @returns
+ */
+export const convertRTFToHTML = (rtf: string): string => {
+	if (!rtf || !rtf.startsWith('{\\rtf')) return '';
+	const fromHTML = /\\fromhtml1/.test(rtf.substring(0, 1024));
+	const codepageMatch = /\\ansicpg(\d+)/.exec(rtf.substring(0, 1024));
+	const decoder = getCodepageDecoder(codepageMatch ? codepageMatch[1] : '1252');
+
+	let result = '';
+	let pendingBytes: number[] = [];
+	let pendingSkip = 0;
+	let state: RTFGroupState = { skip: false, htmlTag: false, htmlRtf: false, unicodeSkip: 1 };
+	let stack: RTFGroupState[] = [];
+
+	const isVisible = () => !state.skip && (!fromHTML || state.htmlTag || !state.htmlRtf);
+
+	const flushBytes = () => {
+		if (pendingBytes.length > 0) {
+			result += decoder.decode(new Uint8Array(pendingBytes));
+			pendingBytes = [];
+		}
+	};
+
+	const emit = (text: string) => {
+		if (pendingSkip > 0) {
+			pendingSkip--;
+			return;
+		}
+		if (!isVisible()) return;
+		flushBytes();
+		result += fromHTML || state.htmlTag ? text : escapeHTML(text);
+	};
+
+	let i = 0;
+	while (i < rtf.length) {
+		let char = rtf[i];
+		if (char === '{') {
+			stack.push(state);
+			state = { ...state };
+			i++;
+			// Check whether the group is a destination that should be ignored or an HTML tag
+			let destination = /^\\\*\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.substring(i, i + 64));
+			if (destination) {
+				if (destination[1] === 'htmltag') {
+					state.htmlTag = true;
+					state.skip = false;
+				} else {
+					state.skip = true;
+				}
+				i += destination[0].length;
+			} else {
+				let word = /^\\([a-zA-Z]+)/.exec(rtf.substring(i, i + 32));
+				if (word && SKIPPED_DESTINATIONS.includes(word[1])) state.skip = true;
+			}
+		} else if (char === '}') {
+			if (stack.length > 0) {
+				flushBytes();
+				state = stack.pop();
+			}
+			i++;
+		} else if (char === '\\') {
+			let next = rtf[i + 1];
+			if (next === "'") {
+				let byte = parseInt(rtf.substring(i + 2, i + 4), 16);
+				i += 4;
+				if (pendingSkip > 0) {
+					pendingSkip--;
+				} else if (isVisible() && !isNaN(byte)) {
+					pendingBytes.push(byte);
+				}
+			} else if (next === '\\' || next === '{' || next === '}') {
+				emit(next);
+				i += 2;
+			} else if (next === '~') {
+				emit(' ');
+				i += 2;
+			} else if (next && /[a-zA-Z]/.test(next)) {
+				let match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.substring(i, i + 48));
+				let word = match[1];
+				let param = match[2] !== undefined ? parseInt(match[2]) : undefined;
+				i += match[0].length;
+				if (word === 'htmlrtf') {
+					state.htmlRtf = param !== 0;
+				} else if (word === 'uc') {
+					state.unicodeSkip = param ?? 1;
+				} else if (word === 'u' && param !== undefined) {
+					emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+					pendingSkip = state.unicodeSkip;
+				} else if (SYMBOL_WORDS[word]) {
+					emit(SYMBOL_WORDS[word]);
+				} else if (pendingSkip > 0) {
+					pendingSkip--;
+				}
+			} else {
+				// Other control symbols (\*, \-, \_ etc.) are not rendered
+				i += 2;
+			}
+		} else if (char === '\r' || char === '\n') {
+			i++;
+		} else {
+			emit(char);
+			i++;
+		}
+	}
+	flushBytes();
+
+	return fromHTML ? result : '<div>' + result.replace(/\r\n/g, '<br>') + '</div>';
+};
+
+/* ------------ HELPERS ------------ */
+
+const getCodepageDecoder = (codepage: string): TextDecoder => {
+	return new TextDecoder(getCodepageCharset(parseInt(codepage)) ?? 'windows-1252');
+};
+
+const escapeHTML = (text: string): string => {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
@@ -1,14 +1,57 @@
 import MsgHandlerPlugin from 'main';
 import { PluginSettingTab, Setting, App } from 'obsidian';
+import { DEFAULT_NOTE_TEMPLATE, TEMPLATE_PLACEHOLDERS } from 'templates';
+import { AttachmentCollisionMode, ComposeMode, NoteTemplate, SearchViewOptions } from 'types';
 
 export interface MSGHandlerPluginSettings {
 	searchEnabled: boolean;
 	logEnabled: boolean;
+	loadRemoteContent: boolean;
+	noteFolderPath: string;
+	noteFileName: string;
+	noteTemplates: NoteTemplate[];
+	saveAttachmentsWithNote: boolean;
+	searchViewOptions: SearchViewOptions;
+	indexingConcurrency: number;
+	attachmentFolderPattern: string;
+	attachmentCollisionMode: AttachmentCollisionMode;
+	deduplicateAttachments: boolean;
+	importFolderPath: string;
+	importFileName: string;
+	contactNoteFolderPath: string;
+	meetingNoteFolderPath: string;
+	ownEmailAddresses: string[];
+	composeMode: ComposeMode;
+	draftFolderPath: string;
 }
 
 export const DEFAULT_SETTINGS: MSGHandlerPluginSettings = {
 	searchEnabled: true,
 	logEnabled: false,
+	loadRemoteContent: false,
+	noteFolderPath: '',
+	noteFileName: '{{date}} {{subject}}',
+	noteTemplates: [{ name: 'Default', folderPath: '', content: DEFAULT_NOTE_TEMPLATE }],
+	saveAttachmentsWithNote: false,
+	searchViewOptions: {
+		sortField: 'relevance',
+		sortAscending: false,
+		folderPath: '',
+		fileType: 'all',
+		dateFrom: '',
+		dateTo: '',
+	},
+	indexingConcurrency: 4,
+	attachmentFolderPattern: 'Attachments/{{date:YYYY-MM-DD}}-{{subject}}/',
+	attachmentCollisionMode: 'rename',
+	deduplicateAttachments: true,
+	importFolderPath: 'Inbox',
+	importFileName: '{{date:YYYY-MM-DD}} {{subject}}',
+	contactNoteFolderPath: 'Contacts',
+	meetingNoteFolderPath: 'Meetings',
+	ownEmailAddresses: [],
+	composeMode: 'mailto',
+	draftFolderPath: 'Drafts',
 };
 
 export class MSGHandlerPluginSettingsTab extends PluginSettingTab {
@@ -21,6 +64,7 @@ export class MSGHandlerPluginSettingsTab extends PluginSettingTab {
 
 	display(): void {
 		let { containerEl } = this;
+		containerEl.empty();
 
 		const tipDiv = containerEl.createDiv('tip');
 		tipDiv.addClass('oz-msg-handler-tip-div');
@@ -73,5 +117,306 @@ export class MSGHandlerPluginSettingsTab extends PluginSettingTab {
 					this.plugin.saveSettings();
 				})
 			);
+
+		new Setting(containerEl)
+			.setName('Load Remote Images')
+			.setDesc(
+				'Turn on if you want images and styles of the HTML emails to be loaded from the internet. These can let the sender know when you open the email, so they are blocked by default and can be loaded for each email separately'
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.loadRemoteContent).onChange((value) => {
+					this.plugin.settings.loadRemoteContent = value;
+					this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(containerEl)
+			.setName('Indexing Concurrency')
+			.setDesc('Number of email files that are indexed at the same time in the background')
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 10, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.indexingConcurrency)
+					.onChange((value) => {
+						this.plugin.settings.indexingConcurrency = value;
+						this.plugin.saveSettings();
+					})
+			);
+
+		/* ------------- Import Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Import Emails' });
+
+		new Setting(containerEl)
+			.setName('Import Folder')
+			.setDesc(
+				'Folder path where the emails dropped or pasted into the editor or file explorer are copied. Leave empty for the vault root'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder('Inbox')
+					.setValue(this.plugin.settings.importFolderPath)
+					.onChange((value) => {
+						this.plugin.settings.importFolderPath = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Import File Name')
+			.setDesc(
+				'File name of the imported emails. Placeholders like {{date:YYYY-MM-DD}} and {{subject}} can be used'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.importFileName)
+					.setValue(this.plugin.settings.importFileName)
+					.onChange((value) => {
+						this.plugin.settings.importFileName = value;
+						this.plugin.saveSettings();
+					})
+			);
+
+		/* ------------- Note Creation Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Create Note from Email' });
+
+		new Setting(containerEl)
+			.setName('Note Folder')
+			.setDesc('Folder path where the notes created from emails are saved. Leave empty for the vault root')
+			.addText((text) =>
+				text
+					.setPlaceholder('Emails')
+					.setValue(this.plugin.settings.noteFolderPath)
+					.onChange((value) => {
+						this.plugin.settings.noteFolderPath = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Note File Name')
+			.setDesc(
+				'File name of the created notes. Placeholders like {{date:YYYY-MM-DD}}, {{subject}} and {{senderName}} can be used'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.noteFileName)
+					.setValue(this.plugin.settings.noteFileName)
+					.onChange((value) => {
+						this.plugin.settings.noteFileName = value === '' ? DEFAULT_SETTINGS.noteFileName : value;
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Save Attachments with Note')
+			.setDesc(
+				'Turn on if you want the attachments of the email to be saved (using the attachment location of the vault) and linked within the note'
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.saveAttachmentsWithNote).onChange((value) => {
+					this.plugin.settings.saveAttachmentsWithNote = value;
+					this.plugin.saveSettings();
+				})
+			);
+
+		/* ------------- Note Template Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Note Templates' });
+
+		const templateDescEl = containerEl.createEl('p', { cls: 'setting-item-description' });
+		templateDescEl.innerText =
+			'The template with the most specific folder containing the email is used to create the note. ' +
+			'Templates without folder apply to all emails. Available placeholders: ' +
+			TEMPLATE_PLACEHOLDERS.map((p) => '{{' + p + '}}').join(', ') +
+			'. Dates can be formatted like {{date:YYYY-MM-DD}}.';
+
+		this.plugin.settings.noteTemplates.forEach((template, index) => {
+			this.displayNoteTemplate(containerEl, template, index);
+		});
+
+		new Setting(containerEl).addButton((button) =>
+			button.setButtonText('Add Template').onClick(async () => {
+				this.plugin.settings.noteTemplates.push({
+					name: 'Template ' + (this.plugin.settings.noteTemplates.length + 1),
+					folderPath: '',
+					content: DEFAULT_NOTE_TEMPLATE,
+				});
+				await this.plugin.saveSettings();
+				this.display();
+			})
+		);
+
+		/* ------------- Save Attachments Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Save All Attachments' });
+
+		new Setting(containerEl)
+			.setName('Attachment Folder')
+			.setDesc(
+				'Folder pattern where all attachments of an email are saved. Placeholders like {{date:YYYY-MM-DD}}, {{subject}} and {{senderName}} can be used'
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.attachmentFolderPattern)
+					.setValue(this.plugin.settings.attachmentFolderPattern)
+					.onChange((value) => {
+						this.plugin.settings.attachmentFolderPattern = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Existing Files')
+			.setDesc('What to do if a file with the same name already exists in the folder')
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ rename: 'Rename', skip: 'Skip', overwrite: 'Overwrite' })
+					.setValue(this.plugin.settings.attachmentCollisionMode)
+					.onChange((value) => {
+						this.plugin.settings.attachmentCollisionMode = value as AttachmentCollisionMode;
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Skip Duplicate Attachments')
+			.setDesc(
+				'Turn on if the attachments with the same content as the ones saved before (e.g. logos) should not be saved again'
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.plugin.settings.deduplicateAttachments).onChange((value) => {
+					this.plugin.settings.deduplicateAttachments = value;
+					this.plugin.saveSettings();
+				})
+			);
+
+		/* ------------- Contacts Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Contacts' });
+
+		new Setting(containerEl)
+			.setName('Contact Note Folder')
+			.setDesc('Folder path where the person notes created from the Contacts view are saved')
+			.addText((text) =>
+				text
+					.setPlaceholder('Contacts')
+					.setValue(this.plugin.settings.contactNoteFolderPath)
+					.onChange((value) => {
+						this.plugin.settings.contactNoteFolderPath = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		/* ------------- Meeting Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Meetings' });
+
+		new Setting(containerEl)
+			.setName('Meeting Note Folder')
+			.setDesc('Folder path where the meeting notes created from calendar invitations are saved')
+			.addText((text) =>
+				text
+					.setPlaceholder('Meetings')
+					.setValue(this.plugin.settings.meetingNoteFolderPath)
+					.onChange((value) => {
+						this.plugin.settings.meetingNoteFolderPath = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+
+		/* ------------- Reply and Forward Settings ------------- */
+
+		containerEl.createEl('h2', { text: 'Reply and Forward' });
+
+		new Setting(containerEl)
+			.setName('My Email Addresses')
+			.setDesc(
+				'Your own addresses (one per line), which are removed from the recipients of replies. The first one is used as sender of the drafts'
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder('me@example.com')
+					.setValue(this.plugin.settings.ownEmailAddresses.join('\n'))
+					.onChange((value) => {
+						this.plugin.settings.ownEmailAddresses = value
+							.split(/[\n,;]/)
+							.map((address) => address.trim())
+							.filter((address) => address !== '');
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Compose With')
+			.setDesc(
+				'Reply, Reply All and Forward either open your mail client with a mailto: link or save a draft .eml file, which keeps the attachments of forwarded emails and can be opened in your mail client'
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ mailto: 'Mail client (mailto: link)', draft: 'Draft .eml file in the vault' })
+					.setValue(this.plugin.settings.composeMode)
+					.onChange((value) => {
+						this.plugin.settings.composeMode = value as ComposeMode;
+						this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Draft Folder')
+			.setDesc('Folder path where the draft .eml files are saved')
+			.addText((text) =>
+				text
+					.setPlaceholder('Drafts')
+					.setValue(this.plugin.settings.draftFolderPath)
+					.onChange((value) => {
+						this.plugin.settings.draftFolderPath = value.trim();
+						this.plugin.saveSettings();
+					})
+			);
+	}
+
+	displayNoteTemplate(containerEl: HTMLElement, template: NoteTemplate, index: number): void {
+		const templateEl = containerEl.createDiv('oz-msg-handler-template');
+
+		new Setting(templateEl)
+			.setName('Template Name')
+			.addText((text) =>
+				text.setValue(template.name).onChange((value) => {
+					template.name = value;
+					this.plugin.saveSettings();
+				})
+			)
+			.addExtraButton((button) =>
+				button
+					.setIcon('trash')
+					.setTooltip('Delete Template')
+					.onClick(async () => {
+						this.plugin.settings.noteTemplates.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					})
+			);
+
+		new Setting(templateEl)
+			.setName('Email Folder')
+			.setDesc('Template is used for the emails within this folder. Leave empty to use it for all emails')
+			.addText((text) =>
+				text.setValue(template.folderPath).onChange((value) => {
+					template.folderPath = value.trim();
+					this.plugin.saveSettings();
+				})
+			);
+
+		new Setting(templateEl).setName('Template Content').addTextArea((text) => {
+			text.setValue(template.content).onChange((value) => {
+				template.content = value;
+				this.plugin.saveSettings();
+			});
+			text.inputEl.rows = 8;
+			text.inputEl.cols = 40;
+		});
 	}
 }
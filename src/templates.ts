@@ -0,0 +1,94 @@
+import dayjs from 'dayjs';
+import { TFile } from 'obsidian';
+import { MSGRenderData, NoteTemplate } from 'types';
+
+/* ------------ NOTE TEMPLATES ------------ */
+
+export const DEFAULT_NOTE_TEMPLATE = '{{frontmatter}}\n# {{subject}}\n\n{{body}}\n\n{{attachments}}\n';
+export const DEFAULT_TEMPLATE_DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+export const TEMPLATE_PLACEHOLDERS = [
+	'frontmatter',
+	'subject',
+	'senderName',
+	'senderEmail',
+	'recipients',
+	'date',
+	'body',
+	'attachments',
+	'source',
+	'fileName',
+];
+
+// --> Values that can be used within templates. Dates can be formatted as {{date:YYYY-MM-DD}}
+export type TemplateValues = { [key: string]: string | dayjs.Dayjs | null };
+
+/**
+ * Creates the template values of the message, which are available for note names, note templates and
+ * attachment folders
+ * @param params
+ * @returns
+ */
+export const getMessageTemplateValues = (params: {
+	msgContent: MSGRenderData;
+	fileName: string;
+}): TemplateValues => {
+	const { msgContent, fileName } = params;
+	return {
+		subject: msgContent.subject,
+		senderName: msgContent.senderName,
+		senderEmail: msgContent.senderEmail,
+		recipients: msgContent.recipients.map((r) => formatAddress(r.name, r.email)).join(', '),
+		date: msgContent.sentTime ? dayjs(msgContent.sentTime) : null,
+		fileName: fileName,
+	};
+};
+
+/**
+ * Formats the name and email as "Name <email>", only one of them is returned if the other is missing
+ * @param name
+ * @param email
+ * @returns
+ */
+export const formatAddress = (name: string, email: string) => {
+	if (name && email && name !== email) return `${name} <${email}>`;
+	return email || name || '';
+};
+
+/**
+ * Replaces all {{key}} and {{key:format}} placeholders within the template with the values provided.
+ * Unknown placeholders are kept as they are
+ * @param template
+ * @param values
+ * @returns
+ */
+export const renderTemplate = (template: string, values: TemplateValues): string => {
+	return template.replace(/{{\s*(\w+)(?::([^}]*))?\s*}}/g, (match, key: string, format: string) => {
+		if (!(key in values)) return match;
+		let value = values[key];
+		if (value === null || value === undefined) return '';
+		if (dayjs.isDayjs(value)) return value.format(format?.trim() || DEFAULT_TEMPLATE_DATE_FORMAT);
+		return value;
+	});
+};
+
+/**
+ * Returns the template that should be used for the email file provided. The template with the most
+ * specific folder containing the file is selected, templates without folder apply to all files
+ * @param params
+ * @returns
+ */
+export const getTemplateForFile = (params: { templates: NoteTemplate[]; msgFile: TFile }): NoteTemplate => {
+	const { templates, msgFile } = params;
+	let selectedTemplate: NoteTemplate = null;
+	let selectedFolderLength = -1;
+	for (let template of templates) {
+		let folderPath = (template.folderPath ?? '').replace(/^\/+|\/+$/g, '');
+		let matches = folderPath === '' || msgFile.path.startsWith(folderPath + '/');
+		if (matches && folderPath.length > selectedFolderLength) {
+			selectedTemplate = template;
+			selectedFolderLength = folderPath.length;
+		}
+	}
+	return selectedTemplate ?? { name: 'Default', folderPath: '', content: DEFAULT_NOTE_TEMPLATE };
+};
@@ -2,34 +2,189 @@ export interface MSGBaseData {
 	senderName: string;
 	senderEmail: string;
 	recipients: MSGRecipient[];
-	creationTime: string;
+	// Timestamps in milliseconds, null if not available within the message
+	sentTime: number | null;
+	receivedTime: number | null;
 	subject: string;
 	body: string;
+	// Conversation threading identifiers without angle brackets, empty if not available
+	messageId: string;
+	inReplyTo: string;
+	references: string[];
+	// Kind of the Outlook item, 'message' for regular emails
+	itemType: MSGItemType;
 }
 
+export type MSGItemType = 'message' | 'meeting' | 'contact' | 'task' | 'note';
+
 // --> This type is created to use for direct render for renderer/index
 export interface MSGRenderData extends MSGBaseData {
+	bodyHTML: string;
 	attachments: MSGAttachment[];
+	headers: MSGHeader[];
+	// Addresses from the Reply-To header, empty if the replies go to the sender
+	replyTo: MSGAddress[];
+	// Address from the Sender header, which sent the message on behalf of the From address. Null if the
+	// header is missing or same as the From address
+	sender: MSGAddress | null;
+	// Event of the meeting request or the calendar invitation, null for other messages
+	calendarEvent: MSGCalendarEvent | null;
+	// Contact, task or sticky note stored within the msg file, null for messages
+	outlookItem: MSGOutlookItem | null;
 }
 
-// --> Message Recipient Details
-export interface MSGRecipient {
+// --> Event parsed from iCalendar parts of EML files or from meeting fields of MSG files
+export interface MSGCalendarEvent {
+	// iCalendar method like REQUEST, CANCEL or REPLY
+	method: string;
+	uid: string;
+	title: string;
+	organizer: MSGAddress | null;
+	startTime: number | null;
+	endTime: number | null;
+	allDay: boolean;
+	// Time zone the event was scheduled in (TZID or Outlook time zone description)
+	timeZone: string;
+	location: string;
+	attendees: MSGCalendarAttendee[];
+	// Readable recurrence like "Every week on Monday", empty for single events
+	recurrence: string;
+	// RRULE value of iCalendar events, which is used for the export
+	recurrenceRule: string;
+	description: string;
+}
+
+export type MSGAttendeeRole = 'required' | 'optional' | 'resource';
+
+export type MSGAttendeeStatus = 'accepted' | 'declined' | 'tentative' | 'delegated' | 'needs-action';
+
+export interface MSGCalendarAttendee extends MSGAddress {
+	role: MSGAttendeeRole;
+	status: MSGAttendeeStatus;
+}
+
+// --> Outlook items (IPM.Contact, IPM.Task, IPM.StickyNote) that are not messages
+export type MSGOutlookItem = MSGContactItem | MSGTaskItem | MSGStickyNoteItem;
+
+export interface MSGContactItem {
+	type: 'contact';
+	displayName: string;
+	givenName: string;
+	middleName: string;
+	surname: string;
+	nickname: string;
+	company: string;
+	jobTitle: string;
+	department: string;
+	website: string;
+	birthday: number | null;
+	emails: MSGAddress[];
+	// Labeled values like Mobile: +1 555 0100, addresses are multiline
+	phones: MSGLabeledValue[];
+	addresses: MSGLabeledValue[];
+}
+
+export type MSGTaskStatus = 'not-started' | 'in-progress' | 'completed' | 'waiting' | 'deferred';
+
+export type MSGImportance = 'low' | 'normal' | 'high';
+
+export interface MSGTaskItem {
+	type: 'task';
+	status: MSGTaskStatus;
+	// Between 0 and 100
+	percentComplete: number;
+	startTime: number | null;
+	dueTime: number | null;
+	completedTime: number | null;
+	owner: string;
+	importance: MSGImportance;
+}
+
+export type MSGStickyNoteColor = 'blue' | 'green' | 'pink' | 'yellow' | 'white';
+
+export interface MSGStickyNoteItem {
+	type: 'note';
+	color: MSGStickyNoteColor;
+	modifiedTime: number | null;
+}
+
+export interface MSGLabeledValue {
+	label: string;
+	value: string;
+}
+
+// --> Raw message header. Headers presented many times (e.g. Received) keep all values in their order
+export interface MSGHeader {
+	name: string;
+	values: string[];
+}
+
+// --> Single hop of the delivery path parsed from a Received header
+export interface MSGDeliveryHop {
+	from: string;
+	by: string;
+	with: string;
+	time: number | null;
+	// Milliseconds passed since the previous hop, null for the first hop or missing times
+	delay: number | null;
+}
+
+// --> Name and email parsed from the address headers like From, Reply-To or Sender
+export interface MSGAddress {
 	name: string;
 	email: string;
 }
 
+// --> Message Recipient Details
+export type MSGRecipientType = 'to' | 'cc' | 'bcc';
+
+export interface MSGRecipient extends MSGAddress {
+	type: MSGRecipientType;
+}
+
 // --> Message Attachment details
 export interface MSGAttachment {
 	fileName: string;
 	fileExtension: string;
 	fileBase64: string;
+	contentId?: string;
+	// Only available for the messages attached as an item (embedded .msg)
+	innerMsgContent?: MSGRenderData;
+}
+
+// --> Kind of inline preview available for the attachment
+export type AttachmentPreviewType = 'image' | 'pdf' | 'text' | 'csv' | 'markdown';
+
+// --> Options of email embeds within notes like ![[mail.msg#body]] or ![[mail.msg|compact]]
+export type MSGEmbedSection = 'header' | 'body' | 'attachments';
+
+export interface MSGEmbedOptions {
+	// Only the section provided is rendered. All sections are rendered if it is missing
+	section?: MSGEmbedSection;
+	// One line summary card instead of the message
+	compact: boolean;
 }
 
 // --> This type is created to store indexed data within the database
 export interface MSGDataIndexed extends MSGBaseData {
 	id?: number;
 	filePath: string;
+	// Offset of the message within mbox files, 0 for single message files (msg, eml, oft)
+	messageOffset: number;
 	mtime: number;
+	size: number;
+	attachmentCount: number;
+	attachments: MSGAttachmentIndexed[];
+}
+
+// --> Attachment details stored within the indexed message
+export interface MSGAttachmentIndexed {
+	fileName: string;
+	// Size in bytes
+	size: number;
+	mimeType: string;
+	// Extracted text of text based attachments (txt, csv, md, html, ics), empty for others
+	text: string;
 }
 
 // --> This type is only used for the purpose of fussysort search results
@@ -37,6 +192,101 @@ export interface MSGDataIndexed extends MSGBaseData {
 // eligible string
 export interface MSGDataIndexedSearchEligible extends Omit<MSGDataIndexed, 'recipients'> {
 	recipients: string;
+	// Names and texts of the attachments
+	attachmentsText: string;
+}
+
+// --> Single message of an mbox file with the offset of its separator line within the file
+export interface MboxMessage {
+	offset: number;
+	msgContent: MSGRenderData;
+}
+
+// --> Attachment saved to the vault by its content hash, used to avoid saving the same file many times
+export interface SavedAttachmentIndexed {
+	hash: string;
+	filePath: string;
+}
+
+// --> What to do if a file with the same name exists while saving attachments
+export type AttachmentCollisionMode = 'rename' | 'skip' | 'overwrite';
+
+export interface SaveAttachmentsResult {
+	// Paths of the saved files
+	saved: string[];
+	// Names of the attachments skipped because of existing files
+	skipped: string[];
+	// Paths of the existing vault files with the same content as the attachments
+	duplicates: string[];
+}
+
+// --> Error captured for a single file during background indexing
+export interface IndexingError {
+	filePath: string;
+	message: string;
+}
+
+// --> Unique email address aggregated from the senders and recipients of the indexed messages
+export interface MSGContact {
+	// Lowercase email address, which identifies the contact
+	email: string;
+	// Display name variants used for the address, the most frequent one first
+	names: string[];
+	messageCount: number;
+	// Sent times of the first and last messages with the contact, null if no message has a sent time
+	firstContactTime: number | null;
+	lastContactTime: number | null;
+}
+
+export type ContactSortField = 'lastContact' | 'messageCount' | 'name';
+
+// --> Message returned by the public API of the plugin (plugins['msg-handler'].api)
+export type MSGApiMessage = Omit<MSGDataIndexed, 'id'>;
+
+// --> Filter of the listMessages function of the public API. All provided conditions should match
+export interface MSGApiMessageFilter {
+	// Part of the sender name or email
+	from?: string;
+	// Part of the name or email of any recipient (to, cc, bcc)
+	to?: string;
+	// Part of the subject
+	subject?: string;
+	// Only the emails within the folder (and its subfolders)
+	folderPath?: string;
+	// Only the emails with one of the file extensions like ['msg', 'eml']
+	extensions?: string[];
+	// Sent time boundaries as timestamp, Date or date string like 2023-03-31
+	after?: number | Date | string;
+	before?: number | Date | string;
+	hasAttachments?: boolean;
+	// Maximum number of messages returned, sorted by the sent time (newest first)
+	limit?: number;
+}
+
+// --> Sort and filter options of the search view, persisted within the plugin settings
+export type SearchSortField = 'relevance' | 'date' | 'sender' | 'subject';
+export type SearchFileType = 'all' | 'msg' | 'eml' | 'oft' | 'mbox';
+
+export interface SearchViewOptions {
+	sortField: SearchSortField;
+	sortAscending: boolean;
+	folderPath: string;
+	fileType: SearchFileType;
+	// Dates in YYYY-MM-DD format, empty if not used
+	dateFrom: string;
+	dateTo: string;
+}
+
+// --> Reply and forward actions of the message header, which are handed off to the mail client
+export type ComposeAction = 'reply' | 'replyAll' | 'forward';
+// Opens a mailto: link or saves a draft .eml file into the vault
+export type ComposeMode = 'mailto' | 'draft';
+
+// --> Note template created by the user to convert emails into notes
+export interface NoteTemplate {
+	name: string;
+	folderPath: string;
+	content: string;
 }
 
 /* --- External Library Helper Interface --- */
@@ -48,14 +298,107 @@ export interface Ext_MSGReader_FileData {
 	subject: string;
 	body: string;
 	attachments: Ext_MSGReader_Attachment[];
-	// Not used
 	headers: string;
-	bodyHTML: string;
+	internetMessageId?: string;
+	inReplyToId?: string;
+	internetReferences?: string;
+	clientSubmitTime?: Date;
+	messageDeliveryTime?: Date;
+	// Binary HTML body, which is decoded with the internet codepage
+	bodyHTML: Uint8Array | string;
+	compressedRtf: Uint8Array;
+	messageCodepage?: number;
+	internetCodepage?: number;
+	// Names of the fields stored as ANSI strings (one character per byte)
+	ansiFieldNames?: string[];
+	// Item type like IPM.Note or IPM.Schedule.Meeting.Request
+	messageClass?: string;
+	// Meeting request and appointment fields
+	startDate?: Date;
+	endDate?: Date;
+	appointmentStart?: Date;
+	appointmentEnd?: Date;
+	appointmentAllDay?: boolean;
+	location?: string;
+	where?: string;
+	recurring?: boolean;
+	recurrencePattern?: string;
+	timeZoneDescription?: string;
+	globalObjectId?: Uint8Array;
+	// Display name of contacts and other items without sender
+	name?: string;
+	importance?: number;
+	creationTime?: Date;
+	lastModificationTime?: Date;
+	// Contact fields
+	givenName?: string;
+	middleName?: string;
+	surname?: string;
+	nickname?: string;
+	displayNamePrefix?: string;
+	generation?: string;
+	fileUnder?: string;
+	companyName?: string;
+	jobTitle?: string;
+	departmentName?: string;
+	businessHomePage?: string;
+	birthday?: Date;
+	email1DisplayName?: string;
+	email1Address?: string;
+	email2DisplayName?: string;
+	email2Address?: string;
+	email3DisplayName?: string;
+	email3Address?: string;
+	primaryPhone?: string;
+	businessPhone?: string;
+	business2Phone?: string;
+	homePhone?: string;
+	home2Phone?: string;
+	mobilePhone?: string;
+	businessFax?: string;
+	otherPhone?: string;
+	businessAddressStreet?: string;
+	businessAddressCity?: string;
+	businessAddressState?: string;
+	businessAddressPostalCode?: string;
+	businessAddressCountry?: string;
+	workAddressStreet?: string;
+	workAddressCity?: string;
+	workAddressState?: string;
+	workAddressPostalCode?: string;
+	workAddressCountry?: string;
+	homeAddressStreet?: string;
+	homeAddressCity?: string;
+	homeAddressState?: string;
+	homeAddressPostalCode?: string;
+	homeAddressCountry?: string;
+	otherAddressStreet?: string;
+	otherAddressCity?: string;
+	otherAddressState?: string;
+	otherAddressPostalCode?: string;
+	otherAddressCountry?: string;
+	// Task fields
+	taskStatus?: number;
+	percentComplete?: number;
+	taskStartDate?: Date;
+	taskDueDate?: Date;
+	taskDateCompleted?: Date;
+	taskComplete?: boolean;
+	taskOwner?: string;
+	// Sticky note fields
+	noteColor?: number;
 }
 
 export interface Ext_MSGReader_Recipient {
 	name: string;
 	email: string;
+	// 1: To, 2: CC, 3: BCC
+	recipientType?: number;
+	// 0x2: Meeting organizer
+	recipientFlags?: number;
+	// 2: Tentative, 3: Accepted, 4: Declined
+	recipientTrackStatus?: number;
+	ansiFieldNames?: string[];
 }
 
 export interface Ext_MSGReader_Attachment {
@@ -67,6 +410,9 @@ export interface Ext_MSGReader_Attachment {
 	mimeType: string;
 	name: string;
 	pidContentId: string;
+	innerMsgContent?: boolean;
+	innerMsgContentFields?: Ext_MSGReader_FileData;
+	ansiFieldNames?: string[];
 }
 
 export interface Ext_MSGReader_AttachmentData {
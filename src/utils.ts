@@ -2,16 +2,34 @@ import { MSGReader } from './modules/msgreader.js';
 import MsgHandlerPlugin from 'main';
 import { MarkdownRenderer, Component, TFile } from 'obsidian';
 import { readEml, ReadedEmlJson } from 'eml-parse-js';
-import dayjs from 'dayjs';
 import { Base64 } from 'js-base64';
+import { decompressRTF, convertRTFToHTML } from 'rtf';
+import { decodeEncodedWords, parseAddressList, parseSingleAddress } from 'address';
+import {
+	binaryStringToBytes,
+	bytesToBinaryString,
+	decodeBinaryString,
+	decodeBytes,
+	getCodepageCharset,
+} from 'charset';
+import { getMimeContent } from 'mime';
+import { getMSGCalendarEvent, parseICalendar } from 'calendar';
+import { getMSGOutlookItem, getOutlookItemTitle } from 'items';
 import {
 	MSGRenderData,
+	MSGAddress,
 	MSGRecipient,
+	MSGRecipientType,
 	MSGAttachment,
+	AttachmentPreviewType,
+	MSGHeader,
+	MSGDeliveryHop,
 	Ext_MSGReader_FileData,
 	Ext_MSGReader_Attachment,
 	Ext_MSGReader_AttachmentData,
 	Ext_MSGReader_Recipient,
+	MSGEmbedOptions,
+	MSGCalendarEvent,
 } from 'types';
 
 /**
@@ -24,75 +42,381 @@ export const getMsgContent = async (params: {
 	msgFile: TFile;
 }): Promise<MSGRenderData> => {
 	const { plugin, msgFile } = params;
-	if (msgFile.extension === 'msg') {
+	if (msgFile.extension === 'msg' || msgFile.extension === 'oft') {
 		let msgFileBuffer = await plugin.app.vault.readBinary(params.msgFile);
 		let msgReader = new MSGReader(msgFileBuffer);
 		let fileData = msgReader.getFileData() as Ext_MSGReader_FileData;
-		let creationTime = getMsgDate({ rawHeaders: fileData.headers });
-		return {
-			senderName: dataOrEmpty(fileData.senderName),
-			senderEmail: dataOrEmpty(fileData.senderEmail),
-			recipients: getCustomRecipients(fileData.recipients ? fileData.recipients : []),
-			creationTime:
-				typeof creationTime === 'string'
-					? creationTime
-					: dayjs(creationTime).format('ddd, D MMM YYYY HH:mm:ss'),
-			subject: dataOrEmpty(fileData.subject),
-			body: dataOrEmpty(fileData.body),
-			attachments: extractMSGAttachments({
-				msgReader: msgReader,
-				fileDataAttachments: fileData.attachments,
-			}),
-		};
+		return getMSGRenderData({ msgReader: msgReader, fileData: fileData });
 	} else if (msgFile.extension === 'eml') {
 		let readedEmlJson = await readEmlFile({ emlFile: msgFile, plugin: plugin });
-		let sender = parseEmlSender({ senderText: readedEmlJson.headers.From });
-		return {
-			senderName: sender.senderName,
-			senderEmail: sender.senderEmail,
-			recipients: parseEMLRecipients({ readEmlJson: readedEmlJson }),
-			creationTime: dayjs(readedEmlJson.date).format('ddd, D MMM YYYY HH:mm:ss'),
-			subject: dataOrEmpty(readedEmlJson.subject),
-			body: cleanEMLBody({ text: readedEmlJson.text }),
-			attachments: extractEMLAttachments({ emlFileReadJson: readedEmlJson }),
-		};
+		return getEMLRenderData({ readEmlJson: readedEmlJson });
 	}
 };
 
 /**
- * Creates Header Dictionary coming from Msg Headers String
+ * This function is to get the MSGRenderData from the content of msg, oft or eml file, which is not
+ * within the vault yet (e.g. dropped or pasted files)
  * @param params
- * @returns { [key: string]: string }
+ * @returns
  */
-function parseHeaders(params: { headers: string }): { [key: string]: string } {
-	const { headers } = params;
-	var parsedHeaders: { [key: string]: string } = {};
-	if (!headers) return parsedHeaders;
-	var headerRegEx = /(.*)\: (.*)/g;
-	let m;
-	while ((m = headerRegEx.exec(headers))) {
-		// todo: Pay attention! Header can be presented many times (e.g. Received).
-		// Handle it, if needed!
-		parsedHeaders[m[1]] = m[2];
+export const getMsgContentFromData = async (params: {
+	data: ArrayBuffer;
+	extension: string;
+}): Promise<MSGRenderData> => {
+	const { data, extension } = params;
+	if (extension === 'msg' || extension === 'oft') {
+		let msgReader = new MSGReader(data);
+		let fileData = msgReader.getFileData() as Ext_MSGReader_FileData;
+		return getMSGRenderData({ msgReader: msgReader, fileData: fileData });
+	} else if (extension === 'eml') {
+		let readedEmlJson = await parseEmlBinary({ binaryText: bytesToBinaryString(new Uint8Array(data)) });
+		return getEMLRenderData({ readEmlJson: readedEmlJson });
+	}
+};
+
+/**
+ * Creates MSGRenderData from the parsed EML content. It is also used for the messages within mbox files
+ * @param params
+ * @returns
+ */
+export const getEMLRenderData = (params: { readEmlJson: ParsedEml }): MSGRenderData => {
+	const { readEmlJson } = params;
+	let from = parseSingleAddress(getEMLHeaderValues({ readEmlJson: readEmlJson, name: 'From' }).join(', '));
+	let headers = getEMLHeaders({ readEmlJson: readEmlJson });
+	let attachments = extractEMLAttachments({ emlFileReadJson: readEmlJson });
+	let calendarEvent =
+		(readEmlJson.calendar ? parseICalendar(readEmlJson.calendar) : null) ??
+		getAttachmentCalendarEvent({ attachments: attachments });
+	return {
+		senderName: from.name,
+		senderEmail: from.email,
+		recipients: parseEMLRecipients({ readEmlJson: readEmlJson }),
+		sentTime: toTimestamp(readEmlJson.date),
+		receivedTime: getReceivedTime({
+			receivedHeaders: getEMLHeaderValues({ readEmlJson: readEmlJson, name: 'Received' }),
+		}),
+		subject: dataOrEmpty(readEmlJson.subject),
+		...getEMLThreadIds({ readEmlJson: readEmlJson }),
+		body: readEmlJson.text
+			? cleanEMLBody({ text: readEmlJson.text })
+			: getTextFromHTML(dataOrEmpty(readEmlJson.html)),
+		bodyHTML: dataOrEmpty(readEmlJson.html),
+		attachments: attachments,
+		headers: headers,
+		...getReplyToAndSender({ headers: headers, fromEmail: from.email }),
+		itemType: calendarEvent ? 'meeting' : 'message',
+		calendarEvent: calendarEvent,
+		outlookItem: null,
+	};
+};
+
+/**
+ * Creates MSGRenderData from the fields of MSG file. It is also used for the messages attached as an item
+ * to MSG files (embedded messages), which have the same fields as the root message
+ * @param params
+ * @returns
+ */
+const getMSGRenderData = (params: { msgReader: MSGReader; fileData: Ext_MSGReader_FileData }): MSGRenderData => {
+	const { msgReader, fileData } = params;
+	decodeMSGAnsiFields({ fileData: fileData });
+	let bodyHTML = getMSGBodyHTML({ fileData: fileData });
+	let headers = parseRawHeaders({ rawHeaders: fileData.headers });
+	let attachments = extractMSGAttachments({
+		msgReader: msgReader,
+		fileDataAttachments: fileData.attachments ? fileData.attachments : [],
+	});
+	let body = fileData.body ? fileData.body : getTextFromHTML(bodyHTML);
+	let outlookItem = getMSGOutlookItem({ fileData: fileData });
+	let calendarEvent = outlookItem
+		? null
+		: getMSGCalendarEvent({ fileData: fileData }) ?? getAttachmentCalendarEvent({ attachments: attachments });
+	// Contacts, tasks and notes are not sent, so their last modification time is used as date
+	let itemTime = outlookItem ? fileData.lastModificationTime ?? fileData.creationTime : undefined;
+	return {
+		senderName: dataOrEmpty(fileData.senderName),
+		senderEmail: dataOrEmpty(fileData.senderEmail),
+		recipients: getCustomRecipients(fileData.recipients ? fileData.recipients : []),
+		sentTime: fileData.clientSubmitTime
+			? toTimestamp(fileData.clientSubmitTime)
+			: itemTime
+			? toTimestamp(itemTime)
+			: getMsgDate({ rawHeaders: fileData.headers }),
+		receivedTime: fileData.messageDeliveryTime
+			? toTimestamp(fileData.messageDeliveryTime)
+			: getReceivedTime({
+					receivedHeaders: getRawHeaderValues({ rawHeaders: fileData.headers, name: 'Received' }),
+			  }),
+		subject:
+			dataOrEmpty(fileData.subject) ||
+			(outlookItem ? getOutlookItemTitle({ item: outlookItem, body: body }) : ''),
+		...getMSGThreadIds({ fileData: fileData }),
+		body: body,
+		bodyHTML: bodyHTML,
+		attachments: attachments,
+		headers: headers,
+		// Transport headers are only available for the received messages
+		...getReplyToAndSender({ headers: headers, fromEmail: dataOrEmpty(fileData.senderEmail) }),
+		itemType: outlookItem ? outlookItem.type : calendarEvent ? 'meeting' : 'message',
+		calendarEvent: calendarEvent,
+		outlookItem: outlookItem,
+	};
+};
+
+/**
+ * Creates the list of headers coming from Msg Headers String. Folded (multi-line) header values are
+ * unfolded and the values of headers presented many times (e.g. Received) are kept in their order
+ * @param params
+ * @returns MSGHeader[]
+ */
+function parseRawHeaders(params: { rawHeaders: string }): MSGHeader[] {
+	const { rawHeaders } = params;
+	let headers: MSGHeader[] = [];
+	if (!rawHeaders) return headers;
+	let unfoldedHeaders = rawHeaders.replace(/\r?\n[ \t]+/g, ' ');
+	for (let line of unfoldedHeaders.split(/\r?\n/)) {
+		let separatorIndex = line.indexOf(':');
+		if (separatorIndex <= 0) continue;
+		let name = line.substring(0, separatorIndex).trim();
+		let value = line.substring(separatorIndex + 1).trim();
+		let header = headers.find((h) => h.name.toLowerCase() === name.toLowerCase());
+		if (header) header.values.push(value);
+		else headers.push({ name: name, values: [value] });
 	}
-	return parsedHeaders;
+	return headers;
 }
 
 /**
- * From raw msg headers string, it will extract the creation time
+ * From raw msg headers string, it will extract the creation time as timestamp
  * @param params
  * @returns
  */
-function getMsgDate(params: { rawHeaders: string }): string | Date {
+function getMsgDate(params: { rawHeaders: string }): number | null {
 	const { rawHeaders } = params;
-	// Example for the Date header
-	var headers = parseHeaders({ headers: rawHeaders });
-	if (!headers['Date']) {
-		return '-';
+	let dateValues = getRawHeaderValues({ rawHeaders: rawHeaders, name: 'Date' });
+	if (dateValues.length === 0) {
+		return null;
 	}
-	return new Date(headers['Date']);
+	return toTimestamp(dateValues[0]);
+}
+
+/**
+ * Returns all values of the header with the provided name from raw headers string in their order.
+ * Folded (multi-line) header values are unfolded
+ * @param params
+ * @returns
+ */
+function getRawHeaderValues(params: { rawHeaders: string; name: string }): string[] {
+	const { rawHeaders, name } = params;
+	let header = parseRawHeaders({ rawHeaders: rawHeaders }).find(
+		(h) => h.name.toLowerCase() === name.toLowerCase()
+	);
+	return header ? header.values : [];
 }
 
+/**
+ * Returns all values of the header with the provided name (case insensitive) from the EML headers
+ * @param params
+ * @returns
+ */
+const getEMLHeaderValues = (params: { readEmlJson: ReadedEmlJson; name: string }): string[] => {
+	const { readEmlJson, name } = params;
+	let values: string[] = [];
+	for (let key of Object.keys(readEmlJson.headers ?? {})) {
+		if (key.toLowerCase() !== name.toLowerCase()) continue;
+		let value = readEmlJson.headers[key];
+		for (let singleValue of Array.isArray(value) ? value : [value]) {
+			if (typeof singleValue === 'string') values.push(singleValue.replace(/\r?\n[ \t]*/g, ' ').trim());
+		}
+	}
+	return values;
+};
+
+/**
+ * Returns all headers of the EML file with their values in their order
+ * @param params
+ * @returns
+ */
+const getEMLHeaders = (params: { readEmlJson: ReadedEmlJson }): MSGHeader[] => {
+	const { readEmlJson } = params;
+	return Object.keys(readEmlJson.headers ?? {}).map((name) => ({
+		name: name,
+		values: getEMLHeaderValues({ readEmlJson: readEmlJson, name: name }),
+	}));
+};
+
+/**
+ * The topmost "Received" header is added by the last server, which delivered the message.
+ * Its date (after the last semicolon) is used as received time
+ * @param params
+ * @returns
+ */
+const getReceivedTime = (params: { receivedHeaders: string[] }): number | null => {
+	const { receivedHeaders } = params;
+	if (receivedHeaders.length === 0) return null;
+	return getReceivedHeaderTime(receivedHeaders[0]);
+};
+
+/**
+ * Returns the timestamp of the Received header value, which is provided after the last semicolon
+ * @param receivedHeader
+ * @returns
+ */
+const getReceivedHeaderTime = (receivedHeader: string): number | null => {
+	let separatorIndex = receivedHeader.lastIndexOf(';');
+	if (separatorIndex === -1) return null;
+	return toTimestamp(receivedHeader.substring(separatorIndex + 1).trim());
+};
+
+/**
+ * Parses the delivery path of the message from its Received headers. Each server adds its Received
+ * header to the top, so the headers are reversed to get the hops in chronological order
+ * @param params
+ * @returns
+ */
+export const getDeliveryPath = (params: { headers: MSGHeader[] }): MSGDeliveryHop[] => {
+	const { headers } = params;
+	let receivedHeader = headers.find((h) => h.name.toLowerCase() === 'received');
+	if (!receivedHeader) return [];
+	let hops: MSGDeliveryHop[] = [];
+	for (let value of [...receivedHeader.values].reverse()) {
+		let routeText = value.lastIndexOf(';') === -1 ? value : value.substring(0, value.lastIndexOf(';'));
+		const getClause = (keyword: string) => {
+			let match = new RegExp('(?:^|\\s)' + keyword + '\\s+(\\S+)', 'i').exec(routeText);
+			return match ? match[1] : '';
+		};
+		let time = getReceivedHeaderTime(value);
+		let previousTime = hops.length > 0 ? hops[hops.length - 1].time : null;
+		hops.push({
+			from: getClause('from'),
+			by: getClause('by'),
+			with: getClause('with'),
+			time: time,
+			delay: time !== null && previousTime !== null ? time - previousTime : null,
+		});
+	}
+	return hops;
+};
+
+/**
+ * Extracts the message ids like "<id@domain>" from the header value without angle brackets.
+ * Values without angle brackets are split by whitespace
+ * @param value
+ * @returns
+ */
+const parseMessageIds = (value: string): string[] => {
+	if (!value) return [];
+	let ids = (value.match(/<[^<>\s]+>/g) ?? []).map((id) => id.slice(1, -1));
+	return ids.length > 0 ? ids : value.split(/\s+/).filter((id) => id !== '');
+};
+
+type ThreadIds = Pick<MSGRenderData, 'messageId' | 'inReplyTo' | 'references'>;
+
+/**
+ * Gets the conversation threading ids of MSG file from its properties or from the transport headers
+ * @param params
+ * @returns
+ */
+const getMSGThreadIds = (params: { fileData: Ext_MSGReader_FileData }): ThreadIds => {
+	const { fileData } = params;
+	const getValue = (propertyValue: string, headerName: string) =>
+		propertyValue || getRawHeaderValues({ rawHeaders: fileData.headers, name: headerName }).join(' ');
+	return {
+		messageId: parseMessageIds(getValue(fileData.internetMessageId, 'Message-ID'))[0] ?? '',
+		inReplyTo: parseMessageIds(getValue(fileData.inReplyToId, 'In-Reply-To'))[0] ?? '',
+		references: parseMessageIds(getValue(fileData.internetReferences, 'References')),
+	};
+};
+
+/**
+ * Gets the conversation threading ids of EML file from its headers
+ * @param params
+ * @returns
+ */
+const getEMLThreadIds = (params: { readEmlJson: ReadedEmlJson }): ThreadIds => {
+	const { readEmlJson } = params;
+	const getValue = (headerName: string) => getEMLHeaderValues({ readEmlJson, name: headerName }).join(' ');
+	return {
+		messageId: parseMessageIds(getValue('Message-ID'))[0] ?? '',
+		inReplyTo: parseMessageIds(getValue('In-Reply-To'))[0] ?? '',
+		references: parseMessageIds(getValue('References')),
+	};
+};
+
+/**
+ * Converts the date provided to timestamp, null if the date is not valid
+ * @param date
+ * @returns
+ */
+const toTimestamp = (date: Date | string | number): number | null => {
+	if (date === null || date === undefined || date === '') return null;
+	let timestamp = new Date(date).getTime();
+	return isNaN(timestamp) ? null : timestamp;
+};
+
+/**
+ * Gets the HTML body of MSG file. If the file doesn't have an HTML body, the compressed RTF body
+ * is decompressed and converted into HTML
+ * @param params
+ * @returns
+ */
+const getMSGBodyHTML = (params: { fileData: Ext_MSGReader_FileData }): string => {
+	const { fileData } = params;
+	if (fileData.bodyHTML instanceof Uint8Array && fileData.bodyHTML.length > 0) {
+		let charset = getCodepageCharset(fileData.internetCodepage) ?? getHTMLMetaCharset(fileData.bodyHTML);
+		return decodeBytes(fileData.bodyHTML, charset);
+	}
+	if (typeof fileData.bodyHTML === 'string' && fileData.bodyHTML) return fileData.bodyHTML;
+	if (fileData.compressedRtf) {
+		try {
+			return convertRTFToHTML(decompressRTF(fileData.compressedRtf));
+		} catch (err) {
+			return '';
+		}
+	}
+	return '';
+};
+
+/**
+ * Returns the charset declared with the meta tag of the HTML bytes
+ * @param bytes
+ * @returns
+ */
+const getHTMLMetaCharset = (bytes: Uint8Array): string | null => {
+	let head = bytesToBinaryString(bytes.subarray(0, 2048));
+	let match = /<meta[^>]+charset=["']?([\w.:-]+)/i.exec(head);
+	return match ? match[1] : null;
+};
+
+/**
+ * Decodes the ANSI string fields of the MSG file, its recipients and attachments with the message codepage.
+ * If the codepage is not available, the charset is detected. Transport headers are always detected, since
+ * they are kept as they were received
+ * @param params
+ */
+const decodeMSGAnsiFields = (params: { fileData: Ext_MSGReader_FileData }) => {
+	const { fileData } = params;
+	let charset = getCodepageCharset(fileData.messageCodepage);
+	const decodeFields = (fields: { [name: string]: any; ansiFieldNames?: string[] }) => {
+		for (let fieldName of fields.ansiFieldNames ?? []) {
+			if (typeof fields[fieldName] !== 'string') continue;
+			if (fieldName === 'bodyHTML') {
+				// HTML body is decoded with the internet codepage like the binary one
+				fields[fieldName] = binaryStringToBytes(fields[fieldName]);
+			} else {
+				fields[fieldName] = decodeBinaryString(
+					fields[fieldName],
+					fieldName === 'headers' ? null : charset
+				);
+			}
+		}
+		// Fields are decoded only once, even if the render data is created again
+		fields.ansiFieldNames = [];
+	};
+	decodeFields(fileData);
+	(fileData.recipients ?? []).forEach((recipient) => decodeFields(recipient));
+	(fileData.attachments ?? []).forEach((attachment) => decodeFields(attachment));
+};
+
 /**
  * Function to clean the EML Body Text
  * @param params
@@ -112,9 +436,18 @@ const cleanEMLBody = (params: { text: string }) => {
  */
 const readEmlFile = async (params: { emlFile: TFile; plugin: MsgHandlerPlugin }): Promise<ReadedEmlJson> => {
 	const { emlFile, plugin } = params;
-	let emlFileRead = await plugin.app.vault.read(emlFile);
+	let emlFileBuffer = await plugin.app.vault.readBinary(emlFile);
+	return parseEmlBinary({ binaryText: bytesToBinaryString(new Uint8Array(emlFileBuffer)) });
+};
+
+/**
+ * Parses the raw EML content
+ * @param params
+ * @returns
+ */
+export const parseEml = (params: { emlText: string }): Promise<ReadedEmlJson> => {
 	return new Promise((resolve, reject) => {
-		readEml(emlFileRead, (err, ReadedEMLJson) => {
+		readEml(params.emlText, (err, ReadedEMLJson) => {
 			if (err) {
 				reject(err);
 			} else {
@@ -124,43 +457,83 @@ const readEmlFile = async (params: { emlFile: TFile; plugin: MsgHandlerPlugin })
 	});
 };
 
+// --> Parsed EML content with the decoded text/calendar part, which is not kept by eml-parse-js
+type ParsedEml = ReadedEmlJson & { calendar?: string | null };
+
 /**
- * Get the "TO" Sender Text and Render Sender Name and Sender Email from it
+ * Parses the raw EML content, which was read with one character per byte. Header values are decoded with
+ * charset detection, bodies and attachment names are decoded with the charset declared within their own part
  * @param params
  * @returns
  */
-const parseEmlSender = (params: { senderText: string }): { senderName: string; senderEmail: string } => {
-	let { senderText } = params;
-	if (senderText === '' || senderText === undefined || senderText === null) {
-		return { senderName: '', senderEmail: '' };
+export const parseEmlBinary = async (params: { binaryText: string }): Promise<ParsedEml> => {
+	const { binaryText } = params;
+	let readEmlJson: ParsedEml = await parseEml({ emlText: binaryText });
+
+	for (let key of Object.keys(readEmlJson.headers ?? {})) {
+		let value = readEmlJson.headers[key];
+		if (Array.isArray(value)) {
+			readEmlJson.headers[key] = value.map((v) => (typeof v === 'string' ? decodeBinaryString(v) : v));
+		} else if (typeof value === 'string') {
+			readEmlJson.headers[key] = decodeBinaryString(value);
+		}
 	}
-	senderText = senderText.replace(/"/g, '');
-	const regex = /^([^<]+) <([^>]+)>$/;
-	const match = regex.exec(senderText);
-	if (!match) return { senderName: '', senderEmail: '' };
-	const [, senderName, senderEmail] = match;
-	return { senderName, senderEmail };
+	let subject = getEMLHeaderValues({ readEmlJson: readEmlJson, name: 'Subject' })[0];
+	if (subject !== undefined) readEmlJson.subject = decodeEncodedWords(subject);
+
+	let mimeContent = getMimeContent(binaryText);
+	if (mimeContent.text !== null) readEmlJson.text = mimeContent.text;
+	if (mimeContent.html !== null) readEmlJson.html = mimeContent.html;
+	readEmlJson.calendar = mimeContent.calendar;
+	// Names are only replaced if the parts could be matched with the attachments of the parser
+	let attachments = readEmlJson.attachments ?? [];
+	if (attachments.length === mimeContent.attachmentNames.length) {
+		mimeContent.attachmentNames.forEach((name, index) => {
+			if (name) attachments[index].name = name;
+		});
+	}
+	return readEmlJson;
+};
+
+/**
+ * Returns the Reply-To addresses and the Sender address from the headers. Sender is only returned if it is
+ * different than the From address
+ * @param params
+ * @returns
+ */
+const getReplyToAndSender = (params: {
+	headers: MSGHeader[];
+	fromEmail: string;
+}): { replyTo: MSGAddress[]; sender: MSGAddress | null } => {
+	const { headers, fromEmail } = params;
+	const getHeaderText = (name: string) =>
+		(headers.find((h) => h.name.toLowerCase() === name.toLowerCase())?.values ?? []).join(', ');
+	let sender = parseSingleAddress(getHeaderText('Sender'));
+	return {
+		replyTo: parseAddressList(getHeaderText('Reply-To')),
+		sender: sender.email && sender.email.toLowerCase() !== fromEmail.toLowerCase() ? sender : null,
+	};
 };
 
 /**
- * From EML To and CC create MSGRecipient List
+ * From EML To, CC and BCC create MSGRecipient List
  * @param params
  * @returns
  */
 const parseEMLRecipients = (params: { readEmlJson: ReadedEmlJson }): MSGRecipient[] => {
 	const { readEmlJson } = params;
-	let emlTo = dataOrEmpty(readEmlJson.headers.To);
-	let emlCC = dataOrEmpty(readEmlJson.headers.CC);
-	let recipientsText = emlTo + (emlCC === '' ? '' : ', ' + emlCC);
-	let recipientsTextSplit = recipientsText.split('>,');
-	const regex = /"([^"]+)"\s*<?([^>\s]+)>?/;
-	let msgRecipients = [];
-	for (let recipientText of recipientsTextSplit) {
-		const match = recipientText.match(regex);
-		if (match) {
-			const name = match[1] || match[3];
-			const email = match[2] || match[4];
-			msgRecipients.push({ name, email });
+	let msgRecipients: MSGRecipient[] = [];
+	const recipientHeaders: { name: string; type: MSGRecipientType }[] = [
+		{ name: 'To', type: 'to' },
+		{ name: 'CC', type: 'cc' },
+		{ name: 'BCC', type: 'bcc' },
+	];
+	for (let recipientHeader of recipientHeaders) {
+		let recipientsText = getEMLHeaderValues({ readEmlJson: readEmlJson, name: recipientHeader.name }).join(
+			', '
+		);
+		for (let address of parseAddressList(recipientsText)) {
+			msgRecipients.push({ name: address.name, email: address.email, type: recipientHeader.type });
 		}
 	}
 	return msgRecipients;
@@ -178,12 +551,30 @@ const extractMSGAttachments = (params: {
 }): MSGAttachment[] => {
 	const { msgReader, fileDataAttachments } = params;
 	let msgAttachments: MSGAttachment[] = [];
-	for (let [index, fileDataAttachment] of fileDataAttachments.entries()) {
-		let attRead = msgReader.getAttachment(index) as Ext_MSGReader_AttachmentData;
+	for (let fileDataAttachment of fileDataAttachments) {
+		// Embedded messages don't have attachment data, their fields are parsed like the root message
+		if (fileDataAttachment.innerMsgContent && fileDataAttachment.innerMsgContentFields) {
+			let innerMsgContent = getMSGRenderData({
+				msgReader: msgReader,
+				fileData: fileDataAttachment.innerMsgContentFields,
+			});
+			let fileName = dataOrEmpty(
+				fileDataAttachment.fileName || fileDataAttachment.name || innerMsgContent.subject
+			);
+			msgAttachments.push({
+				fileName: fileName.toLowerCase().endsWith('.msg') ? fileName : fileName + '.msg',
+				fileExtension: '.msg',
+				fileBase64: null,
+				innerMsgContent: innerMsgContent,
+			});
+			continue;
+		}
+		let attRead = msgReader.getAttachment(fileDataAttachment) as Ext_MSGReader_AttachmentData;
 		msgAttachments.push({
 			fileName: attRead.fileName,
 			fileExtension: fileDataAttachment.extension,
 			fileBase64: attRead.content ? uint8ArrayToBase64(attRead.content) : null,
+			contentId: cleanContentId(fileDataAttachment.pidContentId),
 		});
 	}
 	return msgAttachments;
@@ -200,12 +591,15 @@ const extractEMLAttachments = (params: { emlFileReadJson: ReadedEmlJson }): MSGA
 	if (emlFileReadJson.attachments && emlFileReadJson.attachments.length > 0) {
 		let attachments: MSGAttachment[] = [];
 		for (let attachment of params.emlFileReadJson.attachments) {
-			let fileNameParts = attachment.name.split('.');
+			let contentId = cleanContentId(attachment.id);
+			let fileName = attachment.name ? attachment.name : dataOrEmpty(contentId);
+			let fileNameParts = fileName.split('.');
 			let extension = fileNameParts[fileNameParts.length - 1];
 			attachments.push({
-				fileName: attachment.name,
+				fileName: fileName,
 				fileExtension: '.' + extension,
 				fileBase64: attachment.data64,
+				contentId: contentId,
 			});
 		}
 		return attachments;
@@ -214,6 +608,28 @@ const extractEMLAttachments = (params: { emlFileReadJson: ReadedEmlJson }): MSGA
 	}
 };
 
+/**
+ * Returns the event of the first iCalendar (.ics) attachment, null if there is no valid one
+ * @param params
+ * @returns
+ */
+const getAttachmentCalendarEvent = (params: { attachments: MSGAttachment[] }): MSGCalendarEvent | null => {
+	for (let attachment of params.attachments) {
+		// MSG attachments can miss the extension property, so the file name is checked too
+		let isICalendar =
+			(attachment.fileExtension ?? '').toLowerCase() === '.ics' ||
+			(attachment.fileName ?? '').toLowerCase().endsWith('.ics');
+		if (!isICalendar || !attachment.fileBase64) continue;
+		try {
+			let event = parseICalendar(base64ToText(attachment.fileBase64));
+			if (event) return event;
+		} catch (err) {
+			continue;
+		}
+	}
+	return null;
+};
+
 /**
  * This function is to convert Recipients from MsgReader Library format to MSGRecipient format
  * @param recipients
@@ -221,11 +637,12 @@ const extractEMLAttachments = (params: { emlFileReadJson: ReadedEmlJson }): MSGA
  */
 const getCustomRecipients = (recipients: Ext_MSGReader_Recipient[]): MSGRecipient[] => {
 	if (recipients && recipients.length > 0) {
-		let customRecipients = [];
+		let customRecipients: MSGRecipient[] = [];
 		for (let recipient of recipients) {
 			customRecipients.push({
 				name: dataOrEmpty(recipient.name),
 				email: dataOrEmpty(recipient.email),
+				type: recipient.recipientType === 2 ? 'cc' : recipient.recipientType === 3 ? 'bcc' : 'to',
 			});
 		}
 		return customRecipients;
@@ -234,6 +651,16 @@ const getCustomRecipients = (recipients: Ext_MSGReader_Recipient[]): MSGRecipien
 	}
 };
 
+/**
+ * Content-ID values can come wrapped with angle brackets, which are not used in "cid:" references
+ * @param contentId
+ * @returns
+ */
+const cleanContentId = (contentId: string): string | undefined => {
+	if (!contentId) return undefined;
+	return contentId.trim().replace(/^<|>$/g, '');
+};
+
 /**
  * Checks object if it is null and returns empty string if null
  * @param data
@@ -272,6 +699,35 @@ export const getFileName = (filePath: string) => {
 	return filePath;
 };
 
+/**
+ * Get the lowercase extension of the file from the file path without dot
+ * @param filePath
+ * @returns
+ */
+export const getFileExtension = (filePath: string) => {
+	let fileName = getFileName(filePath);
+	let index = fileName.lastIndexOf('.');
+	return index !== -1 ? fileName.substring(index + 1).toLowerCase() : '';
+};
+
+/**
+ * Parses the src and alt attributes of an embed like ![[mail.msg#header|compact]] into the link path of
+ * the email file and the embed options. Unknown sections are ignored and the full message is rendered
+ * @param params
+ * @returns
+ */
+export const parseEmbedOptions = (params: {
+	src: string;
+	alt: string | null;
+}): { linkpath: string; options: MSGEmbedOptions } => {
+	const { src, alt } = params;
+	let [linkpath, subpath] = src.split('#');
+	let options: MSGEmbedOptions = { compact: alt?.trim().toLowerCase() === 'compact' };
+	let section = subpath?.trim().toLowerCase();
+	if (section === 'header' || section === 'body' || section === 'attachments') options.section = section;
+	return { linkpath: linkpath, options: options };
+};
+
 /**
  * Helper to open a file passed in params within Obsidian (Tab/Separate)
  * @param params
@@ -281,12 +737,14 @@ export const openFile = (params: {
 	plugin: MsgHandlerPlugin;
 	newLeaf: boolean;
 	leafBySplit?: boolean;
+	// Additional state passed to the view, like the message offset to select within mbox files
+	eState?: { [key: string]: any };
 }) => {
-	const { file, plugin, newLeaf, leafBySplit } = params;
+	const { file, plugin, newLeaf, leafBySplit, eState } = params;
 	let leaf = plugin.app.workspace.getLeaf(newLeaf);
 	if (!newLeaf && leafBySplit) leaf = plugin.app.workspace.createLeafBySplit(leaf, 'vertical');
 	plugin.app.workspace.setActiveLeaf(leaf, { focus: true });
-	leaf.openFile(file, { eState: { focus: true } });
+	leaf.openFile(file, { eState: { focus: true, ...eState } });
 };
 
 /**
@@ -314,6 +772,17 @@ export function isMouseEvent(e: React.TouchEvent | React.MouseEvent): e is React
 	return e && 'screenX' in e;
 }
 
+/**
+ * Calculates the size in bytes of the content encoded as base64 string without decoding it
+ * @param base64
+ * @returns
+ */
+export const getBase64Size = (base64: string): number => {
+	let cleanBase64 = base64.replace(/[^A-Za-z0-9+/=]/g, '');
+	let padding = cleanBase64.endsWith('==') ? 2 : cleanBase64.endsWith('=') ? 1 : 0;
+	return Math.floor((cleanBase64.length * 3) / 4) - padding;
+};
+
 /**
  * Convert base64 string to Uint8Array
  * @param base64
@@ -337,3 +806,253 @@ export function base64ToArrayBuffer(base64: string): Uint8Array {
 export function uint8ArrayToBase64(uint8Array: Uint8Array): string {
 	return Base64.fromUint8Array(uint8Array);
 }
+
+/**
+ * Returns the MIME type of the file extension provided (with or without the dot)
+ * @param fileExtension
+ * @returns
+ */
+export const getMimeType = (fileExtension: string): string => {
+	let extension = fileExtension ? fileExtension.replace(/^\./, '').toLowerCase() : '';
+	const mimeTypes: { [key: string]: string } = {
+		png: 'image/png',
+		jpg: 'image/jpeg',
+		jpeg: 'image/jpeg',
+		gif: 'image/gif',
+		bmp: 'image/bmp',
+		webp: 'image/webp',
+		svg: 'image/svg+xml',
+		pdf: 'application/pdf',
+		txt: 'text/plain',
+		log: 'text/plain',
+		csv: 'text/csv',
+		md: 'text/markdown',
+		html: 'text/html',
+		htm: 'text/html',
+		ics: 'text/calendar',
+		json: 'application/json',
+		xml: 'application/xml',
+	};
+	return mimeTypes[extension] ?? 'application/octet-stream';
+};
+
+/**
+ * Returns the kind of inline preview available for the file extension provided, null if the file
+ * can't be previewed
+ * @param fileExtension
+ * @returns
+ */
+export const getAttachmentPreviewType = (fileExtension: string): AttachmentPreviewType | null => {
+	let extension = fileExtension ? fileExtension.replace(/^\./, '').toLowerCase() : '';
+	if (['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp', 'svg'].includes(extension)) return 'image';
+	if (extension === 'pdf') return 'pdf';
+	if (['txt', 'log', 'json', 'xml', 'ics'].includes(extension)) return 'text';
+	if (extension === 'csv') return 'csv';
+	if (extension === 'md') return 'markdown';
+	return null;
+};
+
+/**
+ * Decodes the base64 content as UTF-8 text
+ * @param base64
+ * @returns
+ */
+export const base64ToText = (base64: string): string => {
+	return new TextDecoder('utf-8').decode(base64ToArrayBuffer(base64));
+};
+
+/**
+ * Parses CSV text into rows of cells. Quoted cells can contain separators, quotes ("") and new lines.
+ * Semicolon is used as separator if the first line contains more semicolons than commas
+ * @param text
+ * @returns
+ */
+export const parseCSV = (text: string): string[][] => {
+	let firstLine = text.split(/\r?\n/, 1)[0];
+	let separator = (firstLine.match(/;/g) ?? []).length > (firstLine.match(/,/g) ?? []).length ? ';' : ',';
+	let rows: string[][] = [];
+	let row: string[] = [];
+	let cell = '';
+	let inQuotes = false;
+	for (let i = 0; i < text.length; i++) {
+		let char = text[i];
+		if (inQuotes) {
+			if (char === '"' && text[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"') {
+			inQuotes = true;
+		} else if (char === separator) {
+			row.push(cell);
+			cell = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && text[i + 1] === '\n') i++;
+			row.push(cell);
+			rows.push(row);
+			row = [];
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+	if (cell !== '' || row.length > 0) {
+		row.push(cell);
+		rows.push(row);
+	}
+	return rows;
+};
+
+/**
+ * Escapes the special characters of the text, so it can be placed into HTML as plain text
+ * @param text
+ * @returns
+ */
+export const escapeHTML = (text: string): string => {
+	return dataOrEmpty(text)
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+};
+
+/**
+ * Extracts the plain text from HTML content
+ * @param html
+ * @returns
+ */
+export const getTextFromHTML = (html: string): string => {
+	if (!html) return '';
+	let doc = new DOMParser().parseFromString(html, 'text/html');
+	doc.querySelectorAll('style, script, head').forEach((el) => el.remove());
+	return dataOrEmpty(doc.body?.innerText ?? doc.body?.textContent).trim();
+};
+
+// --> Attributes which load a resource, and the remote url(...) references within CSS
+const RESOURCE_ATTRIBUTES = ['src', 'srcset', 'background', 'poster'];
+const REMOTE_URL_REGEX = /^\s*(?:https?:)?\/\//i;
+const REMOTE_CSS_URL_REGEX = /url\(\s*(['"]?)\s*(?:https?:)?\/\/[^)]*\)/gi;
+const CSS_IMPORT_REGEX = /@import[^;]*;?/gi;
+
+/**
+ * Prepares the HTML body of a message to be displayed. Active content (scripts, frames, forms,
+ * event handlers and javascript: links) is removed and "cid:" references of the inline images
+ * are replaced with the content of the matching attachments. Remote images and styles are removed
+ * unless they are allowed, so opening a message doesn't notify the sender (tracking pixels)
+ * @param params
+ * @returns Complete HTML document and if remote content was removed from it
+ */
+export const getSanitizedMessageHTML = (params: {
+	html: string;
+	attachments: MSGAttachment[];
+	allowRemoteContent: boolean;
+}): { html: string; remoteContentBlocked: boolean } => {
+	const { html, attachments, allowRemoteContent } = params;
+	let doc = new DOMParser().parseFromString(html, 'text/html');
+	let remoteContentBlocked = false;
+
+	doc.querySelectorAll('script, iframe, frame, frameset, object, embed, applet, form, base, link, meta').forEach(
+		(el) => el.remove()
+	);
+
+	doc.querySelectorAll('*').forEach((el) => {
+		for (let attribute of Array.from(el.attributes)) {
+			let name = attribute.name.toLowerCase();
+			let value = attribute.value.trim().toLowerCase();
+			if (name.startsWith('on') || value.startsWith('javascript:') || value.startsWith('vbscript:')) {
+				el.removeAttribute(attribute.name);
+			} else if (RESOURCE_ATTRIBUTES.includes(name) && value.startsWith('cid:')) {
+				// Each attribute is replaced only if it is a "cid:" reference itself
+				let contentId = attribute.value.trim().substring(4);
+				let attachment = attachments.find((a) => a.contentId && a.contentId === contentId && a.fileBase64);
+				if (attachment) {
+					let mimeType = getMimeType(attachment.fileExtension);
+					el.setAttribute(attribute.name, `data:${mimeType};base64,${attachment.fileBase64}`);
+				} else {
+					el.removeAttribute(attribute.name);
+				}
+			} else if (!allowRemoteContent && RESOURCE_ATTRIBUTES.includes(name)) {
+				// srcset lists multiple candidates, any remote one removes the attribute
+				let isRemote =
+					name === 'srcset'
+						? value.split(',').some((candidate) => REMOTE_URL_REGEX.test(candidate))
+						: REMOTE_URL_REGEX.test(value);
+				if (isRemote) {
+					el.removeAttribute(attribute.name);
+					remoteContentBlocked = true;
+				}
+			} else if (!allowRemoteContent && name === 'style') {
+				let blockedStyle = removeRemoteCSS(attribute.value);
+				if (blockedStyle !== attribute.value) {
+					el.setAttribute(attribute.name, blockedStyle);
+					remoteContentBlocked = true;
+				}
+			}
+		}
+	});
+
+	if (!allowRemoteContent) {
+		doc.querySelectorAll('style').forEach((el) => {
+			let css = el.textContent ?? '';
+			let blockedCss = removeRemoteCSS(css);
+			if (blockedCss !== css) {
+				el.textContent = blockedCss;
+				remoteContentBlocked = true;
+			}
+		});
+		// Content security policy of the frame blocks the remote resources the cleanup above doesn't know about
+		let policy = doc.createElement('meta');
+		policy.setAttribute('http-equiv', 'Content-Security-Policy');
+		policy.setAttribute(
+			'content',
+			"default-src 'none'; img-src data:; media-src data:; font-src data:; style-src 'unsafe-inline'"
+		);
+		doc.head.prepend(policy);
+	}
+
+	// Links should never navigate the message frame itself
+	let base = doc.createElement('base');
+	base.setAttribute('target', '_blank');
+	doc.head.prepend(base);
+
+	return { html: '<!DOCTYPE html>' + doc.documentElement.outerHTML, remoteContentBlocked: remoteContentBlocked };
+};
+
+/**
+ * Removes the imports and replaces the remote url(...) references of the CSS
+ * @param css
+ * @returns
+ */
+const removeRemoteCSS = (css: string): string => {
+	return css.replace(CSS_IMPORT_REGEX, '').replace(REMOTE_CSS_URL_REGEX, 'none');
+};
+
+/**
+ * Removes the characters that are not allowed within the file names in Obsidian
+ * @param fileName
+ * @returns
+ */
+export const sanitizeFileName = (fileName: string): string => {
+	if (!fileName) return '';
+	return fileName
+		.replace(/[\\/:*?"<>|#^[\]]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+		.substring(0, 200);
+};
+
+/**
+ * Creates the folder within the vault if it doesn't exist yet
+ * @param params
+ */
+export const createFolderIfNotExists = async (params: { plugin: MsgHandlerPlugin; folderPath: string }) => {
+	const { plugin, folderPath } = params;
+	if (folderPath === '/' || folderPath === '') return;
+	if (!plugin.app.vault.getAbstractFileByPath(folderPath)) {
+		await plugin.app.vault.createFolder(folderPath);
+	}
+};
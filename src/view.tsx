@@ -1,9 +1,13 @@
-import { FileView, TFile, WorkspaceLeaf, ItemView } from 'obsidian';
+import { FileView, TFile, WorkspaceLeaf, ItemView, ViewStateResult } from 'obsidian';
+import { MSGAttachment, MSGEmbedOptions } from 'types';
 import MsgHandlerPlugin from 'main';
 import React from 'react';
 import ReactDOM from 'react-dom';
 import SearchViewComponent from 'components/search';
 import RendererViewComponent from 'components/renderer';
+import MboxViewComponent from 'components/mbox';
+import AttachmentPreviewComponent from 'components/attachment';
+import ContactsViewComponent from 'components/contacts';
 
 /* ------------ CORE MSG HANDLER RENDERER WITH REACT ------------ */
 
@@ -11,12 +15,14 @@ export const renderMsgFileToElement = async (params: {
 	msgFile: TFile;
 	targetEl: HTMLElement;
 	plugin: MsgHandlerPlugin;
+	// Only available for the embeds within notes
+	embedOptions?: MSGEmbedOptions;
 }) => {
-	const { msgFile, targetEl, plugin } = params;
+	const { msgFile, targetEl, plugin, embedOptions } = params;
 	return new Promise<void>((resolve, reject) => {
 		ReactDOM.render(
 			<div className="msg-handler-plugin-renderer">
-				<RendererViewComponent plugin={plugin} fileToRender={msgFile} />
+				<RendererViewComponent plugin={plugin} fileToRender={msgFile} embedOptions={embedOptions} />
 			</div>,
 			targetEl,
 			() => resolve()
@@ -24,6 +30,14 @@ export const renderMsgFileToElement = async (params: {
 	});
 };
 
+/**
+ * Removes the message rendered by renderMsgFileToElement from the element provided
+ * @param targetEl
+ */
+export const unmountMsgFileFromElement = (targetEl: HTMLElement) => {
+	ReactDOM.unmountComponentAtNode(targetEl);
+};
+
 /* ------------ RENDERER VIEW FOR FILE PREVIEW ------------ */
 
 export const RENDER_VIEW_TYPE = 'msg-handler-view';
@@ -69,6 +83,134 @@ export class MsgHandlerView extends FileView {
 	}
 }
 
+/* ------------ MBOX VIEW FOR MAILBOX ARCHIVES ------------ */
+
+export const MBOX_VIEW_TYPE = 'msg-handler-mbox-view';
+
+export class MboxHandlerView extends FileView {
+	plugin: MsgHandlerPlugin;
+	fileToRender: TFile;
+	// Message to select after the file is loaded, provided by the search results
+	selectedOffset: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MsgHandlerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return MBOX_VIEW_TYPE;
+	}
+
+	destroy() {
+		ReactDOM.unmountComponentAtNode(this.contentEl);
+	}
+
+	async onLoadFile(file: TFile): Promise<void> {
+		this.fileToRender = file;
+		this.selectedOffset = null;
+		this.destroy();
+		this.constructMboxView();
+	}
+
+	setEphemeralState(state: any): void {
+		super.setEphemeralState(state);
+		if (state && typeof state.messageOffset === 'number') {
+			this.selectedOffset = state.messageOffset;
+			if (this.fileToRender) this.constructMboxView();
+		}
+	}
+
+	constructMboxView() {
+		ReactDOM.render(
+			<div className="msg-handler-plugin-renderer msg-handler-plugin-mbox">
+				<MboxViewComponent
+					plugin={this.plugin}
+					fileToRender={this.fileToRender}
+					selectedOffset={this.selectedOffset}
+				/>
+			</div>,
+			this.contentEl
+		);
+	}
+
+	async onUnloadFile(file: TFile): Promise<void> {
+		this.destroy();
+		this.contentEl.innerHTML = '';
+		super.onUnloadFile(file);
+	}
+}
+
+/* ------------ ATTACHMENT VIEW FOR TEMPORARY PREVIEW ------------ */
+
+export const ATTACHMENT_VIEW_TYPE = 'msg-handler-attachment-view';
+
+// --> Displays an attachment in its own tab without saving it to the vault. The attachment content is
+// kept in memory by the plugin, only its id is stored within the view state
+export class MsgHandlerAttachmentView extends ItemView {
+	plugin: MsgHandlerPlugin;
+	attachmentId: string | null = null;
+	attachment: MSGAttachment | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MsgHandlerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return ATTACHMENT_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return this.attachment ? this.attachment.fileName : 'Attachment';
+	}
+
+	getIcon(): string {
+		return 'paperclip';
+	}
+
+	getState(): Record<string, unknown> {
+		return { attachmentId: this.attachmentId };
+	}
+
+	async setState(state: any, result: ViewStateResult): Promise<void> {
+		this.attachmentId = state?.attachmentId ?? null;
+		this.attachment = this.attachmentId
+			? this.plugin.temporaryAttachments.get(this.attachmentId) ?? null
+			: null;
+		this.constructAttachmentView();
+		await super.setState(state, result);
+	}
+
+	destroy() {
+		ReactDOM.unmountComponentAtNode(this.contentEl);
+	}
+
+	async onClose() {
+		this.destroy();
+		if (this.attachmentId) this.plugin.temporaryAttachments.delete(this.attachmentId);
+	}
+
+	constructAttachmentView() {
+		this.destroy();
+		ReactDOM.render(
+			<div className="msg-handler-plugin-renderer msg-handler-plugin-attachment">
+				{this.attachment ? (
+					<>
+						<h3>{this.attachment.fileName}</h3>
+						<AttachmentPreviewComponent messageAttachment={this.attachment} />
+					</>
+				) : (
+					<div className="oz-msg-attachment-no-preview">
+						Attachment is not available anymore. Open it again from its email.
+					</div>
+				)}
+			</div>,
+			this.contentEl
+		);
+	}
+}
+
 /* ------------ SEARCH VIEW FOR MSG CONTENTS ------------ */
 
 export const SEARCH_VIEW_DISPLAY_TEXT = 'MSG Handler Search';
@@ -118,3 +260,52 @@ export class MsgHandlerSearchView extends ItemView {
 		);
 	}
 }
+
+/* ------------ CONTACTS VIEW FOR INDEXED ADDRESSES ------------ */
+
+export const CONTACTS_VIEW_DISPLAY_TEXT = 'MSG Handler Contacts';
+export const CONTACTS_VIEW_TYPE = 'msg-handler-contacts-view';
+export const CONTACTS_ICON = 'contact';
+
+export class MsgHandlerContactsView extends ItemView {
+	plugin: MsgHandlerPlugin;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MsgHandlerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return CONTACTS_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return CONTACTS_VIEW_DISPLAY_TEXT;
+	}
+
+	getIcon(): string {
+		return CONTACTS_ICON;
+	}
+
+	destroy() {
+		ReactDOM.unmountComponentAtNode(this.contentEl);
+	}
+
+	async onClose() {
+		this.destroy();
+	}
+
+	async onOpen(): Promise<void> {
+		this.constructContactsView();
+	}
+
+	constructContactsView() {
+		this.destroy();
+		ReactDOM.render(
+			<div className="msg-handler-plugin-search msg-handler-plugin-contacts">
+				<ContactsViewComponent plugin={this.plugin} />
+			</div>,
+			this.contentEl
+		);
+	}
+}